@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { isInCourseScope } from './crawl';
+import { ManifestEntry } from './manifest';
+import { AssetLocalizer } from './patcher';
+import { localPathFromUrl, mirroredPath } from './paths';
+
+export const ASSET_DIR_NAME = '_assets';
+
+export interface DownloadTarget {
+  /** `decodeURI`d, like every URL kept in the manifest. */
+  url: string;
+  localPath: string;
+}
+
+export interface AssetCollector {
+  /** Localizer for a page saved at `htmlPath`; registers every asset it is asked about. */
+  localizerFor(htmlPath: string): AssetLocalizer;
+  add(url: string): { target: DownloadTarget; added: boolean };
+  targets(): DownloadTarget[];
+}
+
+const CSS_REFERENCE = /url\(\s*(['"]?)([^'")]+)\1\s*\)|@import\s+(['"])([^'"]+)\3/gi;
+
+/** Assets inside the course folder keep their place; everything else is mirrored under `_assets/<host>/`. */
+export function assetLocalPath(url: string, courseHref: string, courseDir: string, root: string): string {
+  if (isInCourseScope(url, courseHref)) return localPathFromUrl(url, root);
+  return mirroredPath(url, path.join(courseDir, ASSET_DIR_NAME, new URL(url).hostname), root);
+}
+
+/** Relative, percent-encoded href from one local file to another. */
+export function relativeHref(fromFile: string, toFile: string): string {
+  return path
+    .relative(path.dirname(fromFile), toFile)
+    .split(path.sep)
+    .map(seg => encodeURIComponent(seg))
+    .join('/');
+}
+
+export function createAssetCollector(courseHref: string, courseDir: string, root: string): AssetCollector {
+  const collected = new Map<string, DownloadTarget>();
+
+  const add = (url: string): { target: DownloadTarget; added: boolean } => {
+    const key = decodeURI(url);
+    const existing = collected.get(key);
+    if (existing) return { target: existing, added: false };
+    const target = { url: key, localPath: assetLocalPath(url, courseHref, courseDir, root) };
+    collected.set(key, target);
+    return { target, added: true };
+  };
+
+  return {
+    localizerFor: htmlPath => assetUrls => {
+      const hrefs: Record<string, string> = {};
+      for (const url of assetUrls) {
+        try {
+          hrefs[url] = relativeHref(htmlPath, add(url).target.localPath);
+        } catch {
+          // unparsable URL: the page keeps pointing at the original
+        }
+      }
+      return hrefs;
+    },
+    add,
+    targets: () => Array.from(collected.values())
+  };
+}
+
+export const isStylesheet = (target: DownloadTarget, entry: ManifestEntry): boolean =>
+  /\.css$/i.test(target.localPath) || /text\/css/i.test(entry.contentType ?? '');
+
+/**
+ * Registers the `url()` and `@import` references of a downloaded stylesheet as assets and
+ * rewrites those that would not resolve to the local copies. A rewritten file gets its
+ * manifest size and hash updated for verify, the server's kept next to them so the next
+ * sync can tell whether it changed, and the original references are kept in the entry
+ * because the local file no longer has them.
+ */
+export async function localizeStylesheet(
+  target: DownloadTarget,
+  entry: ManifestEntry,
+  assets: AssetCollector
+): Promise<DownloadTarget[]> {
+  const added: DownloadTarget[] = [];
+  if (entry.assets) {
+    for (const url of entry.assets) {
+      const result = assets.add(url);
+      if (result.added) added.push(result.target);
+    }
+    return added;
+  }
+
+  const css = await fs.promises.readFile(target.localPath, 'utf8');
+  const references = new Set<string>();
+
+  const rewritten = css.replace(CSS_REFERENCE, (match, q1: string, urlRef?: string, q2?: string, importRef?: string) => {
+    const ref = (urlRef ?? importRef ?? '').trim();
+    if (!ref || ref.startsWith('#') || /^(data|about):/i.test(ref)) return match;
+    let absolute: URL;
+    try {
+      absolute = new URL(ref, target.url);
+    } catch {
+      return match;
+    }
+    if (!/^https?:$/.test(absolute.protocol)) return match;
+    absolute.hash = '';
+
+    references.add(absolute.toString());
+    const result = assets.add(absolute.toString());
+    if (result.added) added.push(result.target);
+    const local = relativeHref(target.localPath, result.target.localPath);
+    if (local === ref) return match;
+    return urlRef !== undefined ? `url(${q1}${local}${q1})` : `@import ${q2}${local}${q2}`;
+  });
+
+  if (rewritten !== css) {
+    const data = Buffer.from(rewritten, 'utf8');
+    await fs.promises.writeFile(target.localPath, data);
+    entry.remoteSize = entry.size;
+    entry.remoteSha256 = entry.sha256;
+    entry.size = data.length;
+    entry.sha256 = crypto.createHash('sha256').update(data).digest('hex');
+  }
+  entry.assets = Array.from(references);
+  return added;
+}
@@ -0,0 +1,409 @@
+import axios, { AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import https from 'https';
+import { CookieJar, JSDOM } from 'jsdom';
+import { globToRegExp } from './cli';
+import { canonicalSitePath, siteRelativeParts } from './paths';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Set on the requests the auth layer makes itself, so they aren't intercepted again. */
+    authAttempt?: 'login' | 'retry';
+  }
+}
+
+export type AuthType = 'basic' | 'digest' | 'cookies' | 'form';
+
+export const AUTH_TYPES: AuthType[] = ['basic', 'digest', 'cookies', 'form'];
+
+/**
+ * Credentials for part of the site. A rule applies to a URL when every one of `host`,
+ * `course` and `urlPrefix` it sets matches; the first such rule wins. A rule that sets
+ * none of them covers the site root's host. No rule ever applies outside the site's hosts.
+ */
+export interface AuthRule {
+  type: AuthType;
+  /** e.g. `www.math.cuhk.edu.hk`. */
+  host?: string;
+  /** Course folder glob such as `MATH1010*`. */
+  course?: string;
+  /** The site root and its `courses/` alias are interchangeable here. */
+  urlPrefix?: string;
+  username?: string;
+  password?: string;
+  /** Environment variable holding the password, to keep it out of the config file. */
+  passwordEnv?: string;
+  /** `cookies`: `name=value; other=value`, set for the rule's host. */
+  cookies?: string;
+  /** `cookies`: a Netscape `cookies.txt` as exported from a browser. */
+  cookieFile?: string;
+  /** `form`: the page with the login form; its hidden fields are posted along. */
+  loginUrl?: string;
+  /** `form`: only needed when the form has several text inputs. */
+  usernameField?: string;
+  /** `form`: extra fields to post, overriding those of the form. */
+  fields?: Record<string, string>;
+}
+
+const LOGIN_TIMEOUT_MS = 60_000;
+
+export const httpsAgent = new https.Agent({ rejectUnauthorized: false });
+
+/** Cookies of every request the tool makes, whichever engine opened the page. */
+export const cookieJar = new CookieJar();
+
+/** Every page fetch, probe and download goes through this client, so they share one session. */
+export const http = axios.create({ httpsAgent });
+
+let authRules: AuthRule[] = [];
+let cookieOrigin = '';
+let siteRootHost = '';
+/** The site root's host, `siteHost` and `siteIp`: the only hosts credentials are sent to. */
+let siteHosts = new Set<string>();
+
+export const needsPassword = (rule: AuthRule): boolean =>
+  (rule.type === 'basic' || rule.type === 'digest' || rule.type === 'form') && rule.password === undefined;
+
+/** A short description for prompts and messages; never includes the secrets. */
+export function describeAuthRule(rule: AuthRule): string {
+  const scope = [rule.host, rule.course, rule.urlPrefix].filter(Boolean).join(' ') || siteRootHost;
+  return `${rule.type} login${rule.username ? ` for ${rule.username}` : ''} (${scope})`;
+}
+
+function normalizeCoursePath(url: string): string {
+  try {
+    const u = new URL(url);
+    u.pathname = canonicalSitePath(u.pathname);
+    return u.toString();
+  } catch {
+    return url;
+  }
+}
+
+/** The course folder of a URL such as `.../course_builder/2526/MATH1010A/notes.pdf`. */
+const courseFolder = (url: URL): string | undefined => siteRelativeParts(url.pathname)?.[1];
+
+function matchesRule(rule: AuthRule, url: string): boolean {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return false;
+  }
+  // staff home pages and mirrored assets on other hosts never see the course password
+  const host = u.hostname.toLowerCase();
+  if (!siteHosts.has(host)) return false;
+  if (!rule.host && !rule.course && !rule.urlPrefix) return host === siteRootHost;
+  if (rule.host && host !== rule.host.toLowerCase()) return false;
+  if (rule.course) {
+    const course = courseFolder(u);
+    if (!course || !globToRegExp(rule.course).test(course)) return false;
+  }
+  if (rule.urlPrefix && !normalizeCoursePath(url).startsWith(normalizeCoursePath(rule.urlPrefix))) return false;
+  return true;
+}
+
+export const authRuleFor = (url: string): AuthRule | undefined => authRules.find(rule => matchesRule(rule, url));
+
+/* ---------- cookies ---------- */
+
+function storeSetCookie(header: unknown, url: string): void {
+  const cookies = Array.isArray(header) ? header : typeof header === 'string' ? [header] : [];
+  for (const cookie of cookies) cookieJar.setCookieSync(String(cookie), url, { ignoreError: true });
+}
+
+/** Reads a Netscape `cookies.txt`: tab-separated domain, subdomains, path, secure, expiry, name, value. */
+function loadCookieFile(filePath: string): void {
+  for (const rawLine of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+    const line = rawLine.replace(/^#HttpOnly_/, '');
+    if (!line.trim() || line.startsWith('#')) continue;
+    const [domain, subdomains, cookiePath, secure, expires, name, value = ''] = line.split('\t');
+    if (!name) continue;
+    const host = domain.replace(/^\./, '');
+    const attributes = [
+      `${name}=${value}`,
+      `Path=${cookiePath || '/'}`,
+      subdomains === 'TRUE' ? `Domain=${host}` : '',
+      secure === 'TRUE' ? 'Secure' : '',
+      Number(expires) > 0 ? `Expires=${new Date(Number(expires) * 1000).toUTCString()}` : ''
+    ].filter(Boolean);
+    cookieJar.setCookieSync(attributes.join('; '), `${secure === 'TRUE' ? 'https' : 'http'}://${host}${cookiePath || '/'}`, {
+      ignoreError: true
+    });
+  }
+}
+
+function ruleOrigin(rule: AuthRule): string {
+  if (rule.urlPrefix) return new URL(rule.urlPrefix).origin;
+  if (rule.host) return `https://${rule.host}`;
+  return cookieOrigin;
+}
+
+export interface BrowserCookie {
+  name: string;
+  value: string;
+  domain?: string;
+  url?: string;
+  path?: string;
+  secure?: boolean;
+  httpOnly?: boolean;
+  expires?: number;
+}
+
+/** The jar's cookies for `url`, in the shape Puppeteer's `setCookie` takes. */
+export function browserCookies(url: string): BrowserCookie[] {
+  return cookieJar.getCookiesSync(url).map(cookie => ({
+    name: cookie.key,
+    value: cookie.value,
+    ...(cookie.hostOnly ? { url } : { domain: cookie.domain ?? undefined }),
+    path: cookie.path ?? '/',
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    ...(cookie.expires instanceof Date ? { expires: cookie.expires.getTime() / 1000 } : {})
+  }));
+}
+
+/** Takes over cookies the browser picked up, so downloads carry them too. */
+export function storeBrowserCookies(cookies: BrowserCookie[], url: string): void {
+  for (const cookie of cookies) {
+    const attributes = [
+      `${cookie.name}=${cookie.value}`,
+      `Path=${cookie.path ?? '/'}`,
+      cookie.domain?.startsWith('.') ? `Domain=${cookie.domain.slice(1)}` : '',
+      cookie.secure ? 'Secure' : '',
+      cookie.httpOnly ? 'HttpOnly' : '',
+      cookie.expires !== undefined && cookie.expires > 0 ? `Expires=${new Date(cookie.expires * 1000).toUTCString()}` : ''
+    ].filter(Boolean);
+    const cookieUrl = cookie.domain ? `${cookie.secure ? 'https' : 'http'}://${cookie.domain.replace(/^\./, '')}/` : url;
+    cookieJar.setCookieSync(attributes.join('; '), cookieUrl, { ignoreError: true });
+  }
+}
+
+/* ---------- basic & digest ---------- */
+
+interface DigestChallenge {
+  realm: string;
+  nonce: string;
+  qop?: string;
+  opaque?: string;
+  algorithm?: string;
+}
+
+interface DigestState {
+  challenge: DigestChallenge;
+  count: number;
+}
+
+/** The last Digest challenge per rule, answered up front until the server sends a new one. */
+const digestStates = new Map<AuthRule, DigestState>();
+/** Which scheme a URL last asked for, so prompted credentials know how to answer. */
+const lastChallenges = new Map<string, 'basic' | 'digest'>();
+
+function digestChallenge(header: unknown): DigestChallenge | null {
+  const value = Array.isArray(header) ? header.find(h => /^\s*Digest\s/i.test(String(h))) : header;
+  const params = typeof value === 'string' ? value.match(/Digest\s+(.*)$/is)?.[1] : undefined;
+  if (!params) return null;
+  const fields: Record<string, string> = {};
+  for (const match of params.matchAll(/(\w+)=(?:"([^"]*)"|([^\s,]*))/g)) {
+    const key = match[1].toLowerCase();
+    if (!(key in fields)) fields[key] = match[2] ?? match[3];
+  }
+  if (!fields.nonce) return null;
+  return { realm: fields.realm ?? '', nonce: fields.nonce, qop: fields.qop, opaque: fields.opaque, algorithm: fields.algorithm };
+}
+
+function digestAuthorization(rule: AuthRule, state: DigestState, method: string, url: string): string {
+  const { challenge } = state;
+  const algorithm = (challenge.algorithm ?? 'MD5').toUpperCase();
+  const hash = (text: string): string =>
+    crypto.createHash(algorithm.startsWith('SHA-256') ? 'sha256' : 'md5').update(text).digest('hex');
+  const { pathname, search } = new URL(url);
+  const uri = pathname + search;
+  const cnonce = crypto.randomBytes(8).toString('hex');
+  state.count += 1;
+  const nc = state.count.toString(16).padStart(8, '0');
+  let ha1 = hash(`${rule.username}:${challenge.realm}:${rule.password}`);
+  if (algorithm.endsWith('-SESS')) ha1 = hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+  const ha2 = hash(`${method.toUpperCase()}:${uri}`);
+  const qop = challenge.qop?.split(',').map(q => q.trim()).includes('auth') ? 'auth' : undefined;
+  const response = qop
+    ? hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+    : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+  const parts = [
+    `username="${rule.username}"`,
+    `realm="${challenge.realm}"`,
+    `nonce="${challenge.nonce}"`,
+    `uri="${uri}"`,
+    `response="${response}"`,
+    challenge.algorithm ? `algorithm=${challenge.algorithm}` : '',
+    challenge.opaque !== undefined ? `opaque="${challenge.opaque}"` : '',
+    qop ? `qop=${qop}, nc=${nc}, cnonce="${cnonce}"` : ''
+  ].filter(Boolean);
+  return `Digest ${parts.join(', ')}`;
+}
+
+/** The Authorization header for `url`: Digest once challenged, Basic up front for basic rules. */
+function authorization(rule: AuthRule, method: string, url: string): string | null {
+  if (rule.type !== 'basic' && rule.type !== 'digest') return null;
+  if (rule.username === undefined || rule.password === undefined) return null;
+  const state = digestStates.get(rule);
+  if (state) return digestAuthorization(rule, state, method, url);
+  if (rule.type === 'basic') return `Basic ${Buffer.from(`${rule.username}:${rule.password}`).toString('base64')}`;
+  return null;
+}
+
+/** Basic credentials for Puppeteer's `page.authenticate`, which answers Digest challenges as well. */
+export function browserCredentials(url: string): { username: string; password: string } | null {
+  const rule = authRuleFor(url);
+  if (!rule || (rule.type !== 'basic' && rule.type !== 'digest')) return null;
+  if (rule.username === undefined || rule.password === undefined) return null;
+  return { username: rule.username, password: rule.password };
+}
+
+const challengeKey = (url: string): string => normalizeCoursePath(url.split(/[?#]/)[0]);
+
+/** `basic` or `digest` when `url` answered 401 with a challenge; null otherwise. */
+export const challengeFor = (url: string): 'basic' | 'digest' | null => lastChallenges.get(challengeKey(url)) ?? null;
+
+/** Answers a 401 with a Digest challenge once; anything else is handed back unchanged. */
+async function answerChallenge(response: AxiosResponse): Promise<AxiosResponse | null> {
+  const config = response.config;
+  const url = config.url ?? '';
+  const header = response.headers['www-authenticate'];
+  const challenge = digestChallenge(header);
+  if (header) lastChallenges.set(challengeKey(url), challenge ? 'digest' : 'basic');
+  const rule = authRuleFor(url);
+  if (!challenge || !rule || config.authAttempt) return null;
+  if (rule.type !== 'basic' && rule.type !== 'digest') return null;
+  if (rule.username === undefined || rule.password === undefined) return null;
+  digestStates.set(rule, { challenge, count: 0 });
+  // streamed bodies of the refused request would otherwise keep the socket
+  (response.data as { destroy?: () => void } | undefined)?.destroy?.();
+  const headers = AxiosHeaders.from(config.headers);
+  headers.set('Authorization', authorization(rule, config.method ?? 'get', url));
+  return http.request({ ...config, headers, authAttempt: 'retry' });
+}
+
+/* ---------- form login ---------- */
+
+const logins = new Map<AuthRule, Promise<void>>();
+
+/** Posts the login form once; the session cookies it sets land in the jar. */
+async function formLogin(rule: AuthRule): Promise<void> {
+  const loginUrl = rule.loginUrl!;
+  const page = await http.get<string>(loginUrl, { responseType: 'text', timeout: LOGIN_TIMEOUT_MS, authAttempt: 'login' });
+  const pageUrl: string = page.request?.res?.responseUrl ?? loginUrl;
+  const { document } = new JSDOM(page.data, { url: pageUrl }).window;
+  const passwordInput = document.querySelector<HTMLInputElement>('form input[type=password][name]');
+  const form = passwordInput?.closest('form');
+  if (!passwordInput || !form) throw new Error(`No login form found at ${loginUrl}`);
+
+  const fields = new URLSearchParams();
+  form.querySelectorAll<HTMLInputElement>('input[name]').forEach(input => {
+    if (/^(submit|button|image|reset|file)$/i.test(input.type)) return;
+    if (/^(checkbox|radio)$/i.test(input.type) && !input.checked) return;
+    fields.set(input.name, input.value);
+  });
+  const usernameField =
+    rule.usernameField ??
+    form.querySelector<HTMLInputElement>('input[name]:not([type]), input[type=text][name], input[type=email][name]')?.name;
+  if (!usernameField) throw new Error(`No user name field in the login form at ${loginUrl}; set "usernameField".`);
+  fields.set(usernameField, rule.username ?? '');
+  fields.set(passwordInput.name, rule.password ?? '');
+  for (const [name, value] of Object.entries(rule.fields ?? {})) fields.set(name, value);
+
+  const action = new URL(form.getAttribute('action') || pageUrl, pageUrl).href;
+  const response = await http.post<string>(action, fields.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    responseType: 'text',
+    timeout: LOGIN_TIMEOUT_MS,
+    authAttempt: 'login'
+  });
+  // a failed login lands on the form again
+  if (/<input[^>]+type=["']?password/i.test(String(response.data))) {
+    throw new Error(`The login form at ${loginUrl} rejected the credentials`);
+  }
+}
+
+/** Logs in through the form rule of `url`, once per run; other rules need no preparation. */
+export function prepareAuth(url: string): Promise<void> {
+  const rule = authRuleFor(url);
+  if (rule?.type !== 'form') return Promise.resolve();
+  let login = logins.get(rule);
+  if (!login) {
+    // a failed login is tried again by the next request instead of failing it too
+    login = formLogin(rule).catch((err: unknown) => {
+      logins.delete(rule);
+      throw err;
+    });
+    logins.set(rule, login);
+  }
+  return login;
+}
+
+/* ---------- setup ---------- */
+
+/**
+ * Installs the rules and loads their cookies; bare cookie strings of rules without a host go
+ * to `siteRoot`. `hosts` are the other names of the site, e.g. `siteHost` and `siteIp`.
+ */
+export function configureAuth(rules: AuthRule[], siteRoot: string, hosts: string[] = []): void {
+  authRules = [...rules];
+  const siteUrl = new URL(siteRoot);
+  cookieOrigin = siteUrl.origin;
+  siteRootHost = siteUrl.hostname.toLowerCase();
+  siteHosts = new Set([siteRootHost, ...hosts.map(host => host.toLowerCase())]);
+  for (const rule of authRules) {
+    if (rule.cookieFile) loadCookieFile(rule.cookieFile);
+    for (const pair of (rule.cookies ?? '').split(';').map(s => s.trim()).filter(Boolean)) {
+      cookieJar.setCookieSync(`${pair}; Path=/`, `${ruleOrigin(rule)}/`, { ignoreError: true });
+    }
+  }
+}
+
+/** Credentials entered at a prompt apply before the configured ones. */
+export function addAuthRule(rule: AuthRule): void {
+  authRules.unshift(rule);
+}
+
+http.interceptors.request.use(async (config: InternalAxiosRequestConfig) => {
+  const url = config.url ?? '';
+  if (config.authAttempt !== 'login') await prepareAuth(url);
+  const rule = authRuleFor(url);
+  if (rule && config.authAttempt !== 'login' && !config.headers.has('Authorization')) {
+    const value = authorization(rule, config.method ?? 'get', url);
+    if (value) config.headers.set('Authorization', value);
+  }
+  const cookie = cookieJar.getCookieStringSync(url);
+  if (cookie) config.headers.set('Cookie', cookie);
+
+  // keep the jar current across redirects: login pages set their cookie on the 302
+  let current = url;
+  config.beforeRedirect = (options, { headers }) => {
+    storeSetCookie(headers['set-cookie'], current);
+    current = `${options.protocol}//${options.host}${options.path}`;
+    const next = cookieJar.getCookieStringSync(current);
+    if (next) options.headers.Cookie = next;
+    else delete options.headers.Cookie;
+  };
+  return config;
+});
+
+http.interceptors.response.use(
+  async response => {
+    storeSetCookie(response.headers['set-cookie'], response.request?.res?.responseUrl ?? response.config.url ?? '');
+    if (response.status !== 401) return response;
+    return (await answerChallenge(response)) ?? response;
+  },
+  async err => {
+    if (axios.isAxiosError(err) && err.response) {
+      storeSetCookie(err.response.headers['set-cookie'], err.config?.url ?? '');
+      if (err.response.status === 401) {
+        const retried = await answerChallenge(err.response);
+        if (retried) return retried;
+      }
+    }
+    throw err;
+  }
+);
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import { CourseFolder, escapeHtml, HISTORY_DIR_NAME, hrefFor, scanCourseFolders } from './history';
+import { formatBytes } from './pool';
+import { RunReport } from './report';
+
+export const CATALOGUE_FILE_NAME = 'index.html';
+
+interface CatalogueCourse {
+  year: string;
+  course: string;
+  /** Relative to the download root. */
+  href: string;
+  files: number;
+  bytes: number;
+  syncedAt?: string;
+  blocked?: boolean;
+  failed?: number;
+  /** Downloaded files relative to the download root, for the filename search. */
+  paths: string[];
+}
+
+/** What the latest run report that covered a course says about it. */
+interface CourseRunStatus {
+  blocked: boolean;
+  failed: number;
+}
+
+/** Reads every report in `reportDir`, later runs overriding earlier ones, keyed by `year/course`. */
+async function readRunStatuses(reportDir: string): Promise<Map<string, CourseRunStatus>> {
+  const statuses = new Map<string, CourseRunStatus>();
+  let names: string[];
+  try {
+    names = (await fs.promises.readdir(reportDir)).filter(name => name.endsWith('.json') && name !== 'latest.json');
+  } catch {
+    return statuses;
+  }
+  // report names are ISO timestamps, so they sort chronologically
+  for (const name of names.sort()) {
+    try {
+      const report = JSON.parse(await fs.promises.readFile(path.join(reportDir, name), 'utf8')) as RunReport;
+      for (const year of report.years ?? []) {
+        for (const course of year.courses) {
+          if (course.skipped) continue;
+          statuses.set(`${year.year}/${course.course}`, { blocked: course.blocked, failed: course.stats.failed });
+        }
+      }
+    } catch {
+      // unreadable report: the catalogue just lacks its status columns
+    }
+  }
+  return statuses;
+}
+
+function toCatalogueCourse(folder: CourseFolder, status: CourseRunStatus | undefined): CatalogueCourse {
+  const entries = Object.values(folder.manifest?.files ?? {}).filter(entry => !entry.removedAt);
+  return {
+    year: folder.year,
+    course: folder.course,
+    href: folder.hasIndex ? hrefFor(folder.year, folder.course, 'index.html') : hrefFor(folder.year, folder.course) + '/',
+    files: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    syncedAt: folder.manifest?.updatedAt,
+    blocked: status?.blocked,
+    failed: status?.failed,
+    paths: entries.map(entry => entry.path).sort()
+  };
+}
+
+const formatDate = (iso: string | undefined): string => (iso ? iso.slice(0, 16).replace('T', ' ') : '');
+
+/** JSON that can be embedded in a `<script>` element without closing it early. */
+const scriptJson = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const SEARCH_SCRIPT = `
+var input = document.getElementById('search');
+var results = document.getElementById('results');
+var rows = Array.prototype.slice.call(document.querySelectorAll('tbody.courses tr'));
+function search() {
+  var query = input.value.trim().toLowerCase();
+  rows.forEach(function (row) {
+    row.hidden = Boolean(query) && row.getAttribute('data-search').indexOf(query) < 0;
+  });
+  results.innerHTML = '';
+  if (query.length < 2) return;
+  var shown = 0;
+  FILES.some(function (file) {
+    if (file.toLowerCase().indexOf(query) < 0) return false;
+    var li = document.createElement('li');
+    var a = document.createElement('a');
+    a.href = PREFIX + file.split('/').map(encodeURIComponent).join('/');
+    a.textContent = file;
+    li.appendChild(a);
+    results.appendChild(li);
+    return ++shown >= 200;
+  });
+}
+input.addEventListener('input', search);
+search();
+`;
+
+function renderPage(title: string, courses: CatalogueCourse[], prefix: string, intro: string): string {
+  const rows = courses.map(course => {
+    const status = [course.blocked ? 'blocked' : '', course.failed ? `${course.failed} failed` : ''].filter(Boolean).join(', ');
+    // rows stay visible when one of their files matches
+    const search = [course.year, course.course, ...course.paths.map(p => path.posix.basename(p))].join(' ').toLowerCase();
+    return `<tr data-search="${escapeHtml(search)}">` +
+      `<td>${escapeHtml(course.year)}</td>` +
+      `<td><a href="${prefix}${course.href}">${escapeHtml(course.course)}</a></td>` +
+      `<td>${course.files}</td>` +
+      `<td>${formatBytes(course.bytes)}</td>` +
+      `<td>${formatDate(course.syncedAt)}</td>` +
+      `<td>${escapeHtml(status)}</td></tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: sans-serif; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 2px 6px; }
+  td:nth-child(3), td:nth-child(4) { text-align: right; }
+  #search { width: 24em; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${intro}
+<p><input id="search" type="search" placeholder="Search course code or filename" autofocus></p>
+<ul id="results"></ul>
+<table>
+<thead><tr><th>Year</th><th>Course</th><th>Files</th><th>Size</th><th>Last sync</th><th>Status</th></tr></thead>
+<tbody class="courses">
+${rows.join('\n')}
+</tbody>
+</table>
+<script>
+var PREFIX = ${scriptJson(prefix)};
+var FILES = ${scriptJson(courses.flatMap(course => course.paths))};
+${SEARCH_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Rebuilds `<root>/index.html` and `<root>/<year>/index.html` from the course folders,
+ * their manifests and the run reports. Everything is inline so the pages work from `file://`.
+ */
+export async function writeCatalogue(root: string, reportDir: string): Promise<string | null> {
+  const statuses = await readRunStatuses(reportDir);
+  const courses = (await scanCourseFolders(root)).map(folder =>
+    toCatalogueCourse(folder, statuses.get(`${folder.year}/${folder.course}`))
+  );
+  if (!courses.length) return null;
+
+  const years = Array.from(new Set(courses.map(course => course.year)));
+  const yearRows = years.map(year => {
+    const inYear = courses.filter(course => course.year === year);
+    const synced = inYear.map(course => course.syncedAt ?? '').sort().pop();
+    return `<li><a href="${hrefFor(year, CATALOGUE_FILE_NAME)}">${escapeHtml(year)}</a>: ` +
+      `${inYear.length} courses, ${inYear.reduce((sum, c) => sum + c.files, 0)} files, ` +
+      `${formatBytes(inYear.reduce((sum, c) => sum + c.bytes, 0))}` +
+      (synced ? `, last sync ${formatDate(synced)}` : '') + '</li>';
+  });
+  const intro = `<ul>\n${yearRows.join('\n')}\n</ul>\n` +
+    `<p><a href="${HISTORY_DIR_NAME}/index.html">Course history across years</a></p>`;
+
+  for (const year of years) {
+    const yearCourses = courses.filter(course => course.year === year);
+    const html = renderPage(`Course Builder ${year}`, yearCourses, '../', '<p><a href="../index.html">All years</a></p>');
+    await fs.promises.writeFile(path.join(root, year, CATALOGUE_FILE_NAME), html, 'utf8');
+  }
+  const cataloguePath = path.join(root, CATALOGUE_FILE_NAME);
+  await fs.promises.writeFile(cataloguePath, renderPage('Course Builder archive', courses, '', intro), 'utf8');
+  return cataloguePath;
+}
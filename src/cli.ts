@@ -0,0 +1,375 @@
+import { parseArgs } from 'util';
+import { INVENTORY_FORMATS, InventoryFormat } from './inventory';
+import { yearStart } from './paths';
+import { CourseChoice, CourseSelection, YearChoice } from './types';
+
+export interface CliOptions {
+  years: string[];
+  courses: string[];
+  all: boolean;
+  blockedOnly: boolean;
+  outDir?: string;
+  configPath?: string;
+  siteRoot?: string;
+  siteHost?: string;
+  siteIp?: string;
+  allowedHosts?: string;
+  staffPrefix?: string;
+  followStaff?: string;
+  currentYear?: string;
+  concurrency?: string;
+  perHostRate?: string;
+  retries?: string;
+  retryDelay?: string;
+  crawlDepth?: string;
+  reportDir?: string;
+  engine?: string;
+  watch: boolean;
+  interval?: string;
+  notify: string[];
+  dryRun: boolean;
+  includeExtensions: string[];
+  excludeExtensions: string[];
+  include: string[];
+  exclude: string[];
+  maxSize?: string;
+  format: InventoryFormat;
+  verify: boolean;
+  repair: boolean;
+  localOnly: boolean;
+  resume: boolean;
+  quiet: boolean;
+  json: boolean;
+  logLevel?: string;
+  logFile?: string;
+  yes: boolean;
+  help: boolean;
+}
+
+/** Thrown for bad flags or selections; the process exits with code 2. */
+export class SelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SelectionError';
+  }
+}
+
+export const HELP_TEXT = `Usage: npm start -- [options]
+
+Options:
+  -y, --year <years>      Academic year folder(s), e.g. 2425 or _2324, ranges (1920-2324) or "all"
+  -c, --course <courses>  Course codes, globs (MATH10*) or list indices/ranges (1-5,8); with several
+                          years, years without a matching course are skipped
+  -a, --all               Download every course of the selected year(s)
+  -b, --blocked-only      Only download blocked courses (combine with --course to narrow down)
+  -o, --out <dir>         Download root (default: ./dl)
+      --config <file>     Config file (default: ./cumatdl.config.json if present)
+      --site-root <url>   Course builder root URL
+      --site-host <name>  Canonical host name of the site
+      --site-ip <ip>      IP address some pages link to instead of the host name
+      --allowed-hosts <h> Comma separated hosts files may be downloaded from
+      --staff-prefix <u>  URL prefix of staff home pages
+      --follow-staff <m>  Links into staff home pages: "none" (default) skips them, "files" downloads
+                          the files they point at into <course>/staff/, "pages" also opens the staff
+                          pages linked from course pages and downloads their files
+      --current-year <y>  Year folder that is still live, e.g. 2526 (default: detected)
+      --concurrency <n>   Simultaneous downloads across all courses (default: 4)
+      --host-rate <n>     Requests per second per host, 0 for no limit (default: 4)
+      --retries <n>       Retries for 5xx, timeouts and connection resets (default: 3)
+      --retry-delay <ms>  First retry delay, doubled per attempt (default: 1000)
+      --crawl-depth <n>   Follow sub-pages of a course index n links deep, 0 to disable (default: 2)
+      --report-dir <dir>  Where run reports are written (default: <out>/reports)
+      --engine <e>        "http" (default) parses pages without a browser, "browser" opens every
+                          page in headless Chromium, "auto" only the pages that have no links
+                          without JavaScript
+      --dry-run           List what would be downloaded, with remote sizes, without downloading
+      --format <f>        Dry-run output: "table" (default) or "json" (on stdout, logs go to stderr)
+      --include-ext <e>   Only download these extensions, comma separated (pdf,docx)
+      --exclude-ext <e>   Never download these extensions (mp4,mov)
+      --include <p>       Only download file names matching a glob or /regex/ (repeatable)
+      --exclude <p>       Skip file names matching a glob or /regex/ (repeatable)
+      --max-size <size>   Skip files larger than this, e.g. 200MB
+      --verify            Check the files already downloaded for the selected years and courses (default:
+                          all) against their manifest, their magic bytes and the server, and write a
+                          verify report; exits with 1 when bad files remain
+      --repair            With --verify, download bad files again
+      --local-only        With --verify, skip the checks against the server
+      --watch             Keep running: re-check the selected courses every --interval minutes and
+                          log what was added to <report-dir>/changelog.jsonl (default year: current)
+      --interval <min>    Minutes between watch polls (default: 60)
+      --notify <hook>     Announce new material in watch mode: stdout, a webhook URL or
+                          cmd:<shell command> (repeatable)
+      --resume            Continue the run stopped with Ctrl+C (or a crash) in this download root:
+                          finished courses are skipped and the rest picks up with the files left
+  -q, --quiet             Only print warnings and errors (same as --log-level warn)
+      --log-level <l>     Lowest level printed: "debug", "info" (default), "warn" or "error"
+      --json              Print log events as JSON lines (NDJSON) instead of coloured text
+      --log-file <file>   Also append every log event, debug ones included, to this NDJSON file
+      --yes               Never prompt; fail instead of asking for missing input
+  -h, --help              Show this help
+
+Without --year/--course the selection is asked interactively (requires a TTY).`;
+
+const splitList = (values: string[]): string[] =>
+  values.flatMap(v => v.split(',')).map(s => s.trim()).filter(Boolean);
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  let values;
+  try {
+    ({ values } = parseArgs({
+      args: argv,
+      options: {
+        year: { type: 'string', short: 'y', multiple: true },
+        course: { type: 'string', short: 'c', multiple: true },
+        all: { type: 'boolean', short: 'a' },
+        'blocked-only': { type: 'boolean', short: 'b' },
+        out: { type: 'string', short: 'o' },
+        config: { type: 'string' },
+        'site-root': { type: 'string' },
+        'site-host': { type: 'string' },
+        'site-ip': { type: 'string' },
+        'allowed-hosts': { type: 'string' },
+        'staff-prefix': { type: 'string' },
+        'follow-staff': { type: 'string' },
+        'current-year': { type: 'string' },
+        concurrency: { type: 'string' },
+        'host-rate': { type: 'string' },
+        retries: { type: 'string' },
+        'retry-delay': { type: 'string' },
+        'crawl-depth': { type: 'string' },
+        'report-dir': { type: 'string' },
+        engine: { type: 'string' },
+        watch: { type: 'boolean' },
+        interval: { type: 'string' },
+        notify: { type: 'string', multiple: true },
+        'dry-run': { type: 'boolean' },
+        format: { type: 'string' },
+        'include-ext': { type: 'string', multiple: true },
+        'exclude-ext': { type: 'string', multiple: true },
+        include: { type: 'string', multiple: true },
+        exclude: { type: 'string', multiple: true },
+        'max-size': { type: 'string' },
+        verify: { type: 'boolean' },
+        repair: { type: 'boolean' },
+        'local-only': { type: 'boolean' },
+        resume: { type: 'boolean' },
+        quiet: { type: 'boolean', short: 'q' },
+        json: { type: 'boolean' },
+        'log-level': { type: 'string' },
+        'log-file': { type: 'string' },
+        yes: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' }
+      },
+      strict: true,
+      allowPositionals: false
+    }));
+  } catch (err) {
+    throw new SelectionError(err instanceof Error ? err.message : String(err));
+  }
+
+  const options: CliOptions = {
+    years: splitList(values.year ?? []),
+    courses: splitList(values.course ?? []),
+    all: values.all ?? false,
+    blockedOnly: values['blocked-only'] ?? false,
+    outDir: values.out,
+    configPath: values.config,
+    siteRoot: values['site-root'],
+    siteHost: values['site-host'],
+    siteIp: values['site-ip'],
+    allowedHosts: values['allowed-hosts'],
+    staffPrefix: values['staff-prefix'],
+    followStaff: values['follow-staff'],
+    currentYear: values['current-year'],
+    concurrency: values.concurrency,
+    perHostRate: values['host-rate'],
+    retries: values.retries,
+    retryDelay: values['retry-delay'],
+    crawlDepth: values['crawl-depth'],
+    reportDir: values['report-dir'],
+    engine: values.engine,
+    watch: values.watch ?? false,
+    interval: values.interval,
+    notify: values.notify ?? [],
+    dryRun: values['dry-run'] ?? false,
+    format: (values.format ?? 'table') as InventoryFormat,
+    includeExtensions: splitList(values['include-ext'] ?? []),
+    excludeExtensions: splitList(values['exclude-ext'] ?? []),
+    include: values.include ?? [],
+    exclude: values.exclude ?? [],
+    maxSize: values['max-size'],
+    verify: values.verify ?? false,
+    repair: values.repair ?? false,
+    localOnly: values['local-only'] ?? false,
+    resume: values.resume ?? false,
+    quiet: values.quiet ?? false,
+    json: values.json ?? false,
+    logLevel: values['log-level'],
+    logFile: values['log-file'],
+    yes: values.yes ?? false,
+    help: values.help ?? false
+  };
+
+  if (options.all && options.courses.length) {
+    throw new SelectionError('--all cannot be combined with --course.');
+  }
+  if (options.watch && options.dryRun) {
+    throw new SelectionError('--watch cannot be combined with --dry-run.');
+  }
+  if (options.watch && !options.courses.length && !options.all && !options.blockedOnly) {
+    throw new SelectionError('--watch needs --course, --all or --blocked-only.');
+  }
+  if (options.resume && (options.years.length || options.courses.length || options.all || options.blockedOnly)) {
+    throw new SelectionError('--resume repeats the selection of the stopped run; leave out --year, --course, --all and --blocked-only.');
+  }
+  if (options.resume && (options.watch || options.dryRun || options.verify)) {
+    throw new SelectionError('--resume cannot be combined with --watch, --dry-run or --verify.');
+  }
+  if (options.quiet && options.logLevel) {
+    throw new SelectionError('--quiet cannot be combined with --log-level.');
+  }
+  if ((options.repair || options.localOnly) && !options.verify) {
+    throw new SelectionError('--repair and --local-only need --verify.');
+  }
+  if (options.verify && (options.watch || options.dryRun || options.all || options.blockedOnly)) {
+    throw new SelectionError('--verify cannot be combined with --watch, --dry-run, --all or --blocked-only.');
+  }
+  if (!INVENTORY_FORMATS.includes(options.format)) {
+    throw new SelectionError(`--format must be one of: ${INVENTORY_FORMATS.join(', ')}.`);
+  }
+  return options;
+}
+
+export function parseCourseSelection(input: string, max: number): number[] {
+  const selections = new Set<number>();
+  const chunks = input.split(',').map(s => s.trim()).filter(Boolean);
+  if (!chunks.length) throw new Error('No valid selections provided.');
+
+  for (const chunk of chunks) {
+    const range = chunk.match(/^(\d+)\s*-\s*(\d+)$/);
+    if (range) {
+      let start = Number(range[1]);
+      let end = Number(range[2]);
+      if (!Number.isInteger(start) || !Number.isInteger(end)) {
+        throw new Error(`Invalid range "${chunk}".`);
+      }
+      if (start > end) [start, end] = [end, start];
+      if (start < 1 || end > max) {
+        throw new Error(`Range "${chunk}" is out of bounds (1-${max}).`);
+      }
+      for (let i = start; i <= end; i++) selections.add(i - 1);
+      continue;
+    }
+
+    const num = Number(chunk);
+    if (!Number.isInteger(num) || num < 1 || num > max) {
+      throw new Error(`Invalid selection "${chunk}" (must be within 1-${max}).`);
+    }
+    selections.add(num - 1);
+  }
+
+  return Array.from(selections).sort((a, b) => a - b);
+}
+
+export function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(ch => {
+      if (ch === '*') return '.*';
+      if (ch === '?') return '.';
+      return ch.replace(/[\\^$.+()|{}[\]]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+const INDEX_TOKEN = /^\d+(\s*-\s*\d+)?$/;
+
+/**
+ * Resolves `--course` tokens (indices, ranges, codes or globs) against the listed courses.
+ * With `allowUnmatched`, codes missing from this listing are ignored instead of rejected.
+ */
+export function matchCourses(tokens: string[], courseChoices: CourseChoice[], allowUnmatched = false): CourseChoice[] {
+  const picked = new Set<number>();
+  for (const token of tokens) {
+    if (INDEX_TOKEN.test(token)) {
+      try {
+        parseCourseSelection(token, courseChoices.length).forEach(i => picked.add(i));
+      } catch (err) {
+        throw new SelectionError(err instanceof Error ? err.message : String(err));
+      }
+      continue;
+    }
+    const pattern = globToRegExp(token);
+    let matched = false;
+    courseChoices.forEach((course, idx) => {
+      if (pattern.test(course.label)) {
+        picked.add(idx);
+        matched = true;
+      }
+    });
+    if (!matched && !allowUnmatched) {
+      throw new SelectionError(`No course matches "${token}".`);
+    }
+  }
+  return Array.from(picked).sort((a, b) => a - b).map(i => courseChoices[i]);
+}
+
+const YEAR_RANGE_TOKEN = /^(_?\d{4})\s*-\s*(_?\d{4})$/;
+
+/**
+ * Resolves `--year` values against the year listing; exact folder names win over display labels.
+ * `all` and ranges such as `1920-2324` pick every listed year in between, oldest first.
+ */
+export function matchYears(tokens: string[], yearChoices: YearChoice[]): YearChoice[] {
+  const picked: YearChoice[] = [];
+  const pick = (year: YearChoice): void => {
+    if (!picked.includes(year)) picked.push(year);
+  };
+  const chronological = [...yearChoices].sort((a, b) => yearStart(a.seg) - yearStart(b.seg));
+
+  for (const token of tokens) {
+    if (token.toLowerCase() === 'all') {
+      chronological.forEach(pick);
+      continue;
+    }
+    const range = token.match(YEAR_RANGE_TOKEN);
+    if (range) {
+      let from = yearStart(range[1]);
+      let to = yearStart(range[2]);
+      if (from > to) [from, to] = [to, from];
+      const inRange = chronological.filter(y => yearStart(y.seg) >= from && yearStart(y.seg) <= to);
+      if (!inRange.length) throw new SelectionError(`No year folder within "${token}".`);
+      inRange.forEach(pick);
+      continue;
+    }
+    const match =
+      yearChoices.find(y => y.seg === token) ??
+      yearChoices.find(y => y.displayLabel === token.replace(/^_/, ''));
+    if (!match) throw new SelectionError(`Unknown year "${token}".`);
+    pick(match);
+  }
+  return picked;
+}
+
+/**
+ * Builds a course selection from flags, or returns null when the flags leave it open.
+ * `multiYear` lets a course code select nothing in years where the course wasn't offered.
+ */
+export function selectionFromOptions(
+  options: CliOptions,
+  courseChoices: CourseChoice[],
+  multiYear = false
+): CourseSelection | null {
+  if (options.courses.length) {
+    return {
+      courses: matchCourses(options.courses, courseChoices, multiYear),
+      allSelected: false,
+      blockedOnly: options.blockedOnly
+    };
+  }
+  if (options.all || options.blockedOnly) {
+    return { courses: courseChoices, allSelected: true, blockedOnly: options.blockedOnly };
+  }
+  return null;
+}
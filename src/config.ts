@@ -0,0 +1,446 @@
+import fs from 'fs';
+import path from 'path';
+import { AUTH_TYPES, AuthRule } from './auth';
+import { CliOptions } from './cli';
+import { FilterConfig, FilterRules, namePattern, parseSize } from './filters';
+import { LOG_LEVELS, LogLevel } from './log';
+import { DEFAULT_SITE_ROOT, yearStart } from './paths';
+import { Engine, ENGINES } from './session';
+import { STAFF_MODES, StaffMode } from './staff';
+import { createNotifier } from './watch';
+import { YearChoice } from './types';
+
+export interface AppConfig {
+  siteRoot: string;
+  siteHost: string;
+  /** Address some pages link to instead of `siteHost`; only known for the default site. */
+  siteIp?: string;
+  allowedHosts: string[];
+  staffPrefix: string;
+  /** Whether links into staff home pages are downloaded, and their pages opened. */
+  followStaff: StaffMode;
+  /** Left undefined to detect it from the year listing at runtime. */
+  currentYear?: string;
+  downloadRoot: string;
+  /** Simultaneous file transfers across all courses. */
+  concurrency: number;
+  /** Request starts per second and host; 0 disables the limit. */
+  perHostRate: number;
+  retries: number;
+  /** First retry delay in milliseconds, doubled on every further attempt. */
+  retryDelay: number;
+  /** How many links deep sub-pages of a course index are followed; 0 only saves the index. */
+  crawlDepth: number;
+  /** Where run reports are written; defaults to `<downloadRoot>/reports`. */
+  reportDir: string;
+  /** Which of the allowed links are actually downloaded; empty downloads everything. */
+  filters: FilterConfig;
+  /** How pages are opened; `browser` launches headless Chromium for pages that need JavaScript. */
+  engine: Engine;
+  /** Minutes between polls in `--watch` mode. */
+  watchInterval: number;
+  /** Hooks told about new material in `--watch` mode: `stdout`, a webhook URL or `cmd:<command>`. */
+  notify: string[];
+  /** Credentials for password-protected courses or hosts; never logged or reported. */
+  auth: AuthRule[];
+  /** Lowest level printed on the console; `--quiet` means `warn`. */
+  logLevel: LogLevel;
+  /** NDJSON file every log event is appended to, debug ones included. */
+  logFile?: string;
+}
+
+type ConfigLayer = Partial<AppConfig>;
+
+/** Thrown for unreadable or invalid configuration; the process exits with code 2. */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export const CONFIG_FILE_NAME = 'cumatdl.config.json';
+
+const DEFAULT_SITE_IP = '137.189.49.33';
+const DEFAULT_DOWNLOAD_ROOT = './dl/';
+const CURRENT_YEAR_PATTERN = /^\d{4}$/;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_PER_HOST_RATE = 4;
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 1_000;
+const DEFAULT_CRAWL_DEPTH = 2;
+const DEFAULT_WATCH_INTERVAL = 60;
+const REPORT_DIR_NAME = 'reports';
+
+const ENV_KEYS: Record<keyof AppConfig, string> = {
+  siteRoot: 'CUMATDL_SITE_ROOT',
+  siteHost: 'CUMATDL_SITE_HOST',
+  siteIp: 'CUMATDL_SITE_IP',
+  allowedHosts: 'CUMATDL_ALLOWED_HOSTS',
+  staffPrefix: 'CUMATDL_STAFF_PREFIX',
+  followStaff: 'CUMATDL_FOLLOW_STAFF',
+  currentYear: 'CUMATDL_CURRENT_YEAR',
+  downloadRoot: 'CUMATDL_DOWNLOAD_ROOT',
+  concurrency: 'CUMATDL_CONCURRENCY',
+  perHostRate: 'CUMATDL_HOST_RATE',
+  retries: 'CUMATDL_RETRIES',
+  retryDelay: 'CUMATDL_RETRY_DELAY',
+  crawlDepth: 'CUMATDL_CRAWL_DEPTH',
+  reportDir: 'CUMATDL_REPORT_DIR',
+  filters: 'CUMATDL_FILTERS',
+  engine: 'CUMATDL_ENGINE',
+  watchInterval: 'CUMATDL_WATCH_INTERVAL',
+  notify: 'CUMATDL_NOTIFY',
+  auth: 'CUMATDL_AUTH',
+  logLevel: 'CUMATDL_LOG_LEVEL',
+  logFile: 'CUMATDL_LOG_FILE'
+};
+
+const NUMBER_KEYS = new Set<keyof AppConfig>([
+  'concurrency',
+  'perHostRate',
+  'retries',
+  'retryDelay',
+  'crawlDepth',
+  'watchInterval'
+]);
+
+function parseNumber(key: string, value: unknown, source: string): number {
+  const n = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) {
+    throw new ConfigError(`"${key}" from ${source} must be a non-negative number.`);
+  }
+  return n;
+}
+
+const optionalNumber = (key: string, value: string | undefined, flag: string): number | undefined =>
+  value === undefined ? undefined : parseNumber(key, value, flag);
+
+const FILTER_LIST_KEYS = ['includeExtensions', 'excludeExtensions', 'include', 'exclude'] as const;
+
+function parseFilterRules(value: unknown, source: string, where: string): FilterRules {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ConfigError(`"${where}" from ${source} must be an object.`);
+  }
+  const rules: FilterRules = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (key === 'maxSize') {
+      const size = typeof entry === 'string' || typeof entry === 'number' ? parseSize(entry) : null;
+      if (size === null) throw new ConfigError(`"${where}.maxSize" from ${source} must be a size such as 200MB.`);
+      rules.maxSize = size;
+    } else if ((FILTER_LIST_KEYS as readonly string[]).includes(key)) {
+      if (!Array.isArray(entry) || entry.some(v => typeof v !== 'string')) {
+        throw new ConfigError(`"${where}.${key}" from ${source} must be an array of strings.`);
+      }
+      for (const pattern of key === 'include' || key === 'exclude' ? entry : []) {
+        try {
+          namePattern(pattern);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          throw new ConfigError(`Invalid pattern "${pattern}" in "${where}.${key}" from ${source}: ${message}`);
+        }
+      }
+      rules[key as (typeof FILTER_LIST_KEYS)[number]] = entry as string[];
+    } else if (!(where === 'filters' && key === 'courses')) {
+      throw new ConfigError(`Unknown key "${where}.${key}" in ${source}.`);
+    }
+  }
+  return rules;
+}
+
+function parseFilterConfig(value: unknown, source: string): FilterConfig {
+  const filters: FilterConfig = parseFilterRules(value, source, 'filters');
+  const courses = (value as Record<string, unknown>).courses;
+  if (courses !== undefined) {
+    if (!courses || typeof courses !== 'object' || Array.isArray(courses)) {
+      throw new ConfigError(`"filters.courses" from ${source} must map course globs to rules.`);
+    }
+    filters.courses = Object.fromEntries(
+      Object.entries(courses).map(([course, rules]) => [course, parseFilterRules(rules, source, `filters.courses.${course}`)])
+    );
+  }
+  return filters;
+}
+
+const AUTH_STRING_KEYS = [
+  'host',
+  'course',
+  'urlPrefix',
+  'username',
+  'password',
+  'passwordEnv',
+  'cookies',
+  'cookieFile',
+  'loginUrl',
+  'usernameField'
+] as const;
+
+/** Messages name the offending key only: the values may be secrets. */
+function parseAuthRules(value: unknown, source: string, baseDir: string): AuthRule[] {
+  if (!Array.isArray(value)) throw new ConfigError(`"auth" from ${source} must be an array of rules.`);
+  return value.map((entry, idx) => {
+    const where = `auth[${idx}]`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new ConfigError(`"${where}" from ${source} must be an object.`);
+    }
+    const rule: Partial<AuthRule> = {};
+    for (const [key, field] of Object.entries(entry as Record<string, unknown>)) {
+      if (key === 'type') {
+        if (!AUTH_TYPES.includes(field as AuthRule['type'])) {
+          throw new ConfigError(`"${where}.type" from ${source} must be one of ${AUTH_TYPES.join(', ')}.`);
+        }
+        rule.type = field as AuthRule['type'];
+      } else if (key === 'fields') {
+        if (!field || typeof field !== 'object' || Object.values(field).some(v => typeof v !== 'string')) {
+          throw new ConfigError(`"${where}.fields" from ${source} must map field names to strings.`);
+        }
+        rule.fields = field as Record<string, string>;
+      } else if ((AUTH_STRING_KEYS as readonly string[]).includes(key)) {
+        if (typeof field !== 'string') throw new ConfigError(`"${where}.${key}" from ${source} must be a string.`);
+        rule[key as (typeof AUTH_STRING_KEYS)[number]] = field;
+      } else {
+        throw new ConfigError(`Unknown key "${where}.${key}" in ${source}.`);
+      }
+    }
+    if (!rule.type) throw new ConfigError(`"${where}" from ${source} needs a "type".`);
+    for (const key of ['urlPrefix', 'loginUrl'] as const) {
+      if (rule[key] === undefined) continue;
+      try {
+        new URL(rule[key]!);
+      } catch {
+        throw new ConfigError(`"${where}.${key}" from ${source} must be an absolute URL.`);
+      }
+    }
+    if (rule.type !== 'cookies' && !rule.username) {
+      throw new ConfigError(`"${where}" from ${source} needs a "username".`);
+    }
+    if (rule.type === 'form' && !rule.loginUrl) throw new ConfigError(`"${where}" from ${source} needs a "loginUrl".`);
+    if (rule.type === 'cookies') {
+      if (!rule.cookies && !rule.cookieFile) {
+        throw new ConfigError(`"${where}" from ${source} needs "cookies" or a "cookieFile".`);
+      }
+      if (rule.cookieFile) {
+        rule.cookieFile = path.resolve(baseDir, rule.cookieFile);
+        if (!fs.existsSync(rule.cookieFile)) throw new ConfigError(`Cookie file not found: ${rule.cookieFile}`);
+      }
+    }
+    return rule as AuthRule;
+  });
+}
+
+const splitHosts = (value: string): string[] => value.split(',').map(s => s.trim()).filter(Boolean);
+
+function readConfigFile(filePath: string, required: boolean): ConfigLayer {
+  if (!fs.existsSync(filePath)) {
+    if (required) throw new ConfigError(`Config file not found: ${filePath}`);
+    return {};
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ConfigError(`Cannot parse ${filePath}: ${message}`);
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ConfigError(`${filePath} must contain a JSON object.`);
+  }
+
+  const layer: ConfigLayer = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!(key in ENV_KEYS)) throw new ConfigError(`Unknown key "${key}" in ${filePath}.`);
+    if (key === 'allowedHosts' || key === 'notify') {
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+        throw new ConfigError(`"${key}" in ${filePath} must be an array of strings.`);
+      }
+      layer[key] = value as string[];
+    } else if (key === 'filters') {
+      layer.filters = parseFilterConfig(value, filePath);
+    } else if (key === 'auth') {
+      layer.auth = parseAuthRules(value, filePath, path.dirname(filePath));
+    } else if (NUMBER_KEYS.has(key as keyof AppConfig)) {
+      (layer as Record<string, number>)[key] = parseNumber(key, value, filePath);
+    } else {
+      if (typeof value !== 'string') throw new ConfigError(`"${key}" in ${filePath} must be a string.`);
+      (layer as Record<string, string>)[key] = value;
+    }
+  }
+  // relative directories in the file are relative to the file, not to the working directory
+  if (layer.downloadRoot) layer.downloadRoot = path.resolve(path.dirname(filePath), layer.downloadRoot);
+  if (layer.reportDir) layer.reportDir = path.resolve(path.dirname(filePath), layer.reportDir);
+  if (layer.logFile) layer.logFile = path.resolve(path.dirname(filePath), layer.logFile);
+  return layer;
+}
+
+function parseJsonEnv(value: string, envName: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new ConfigError(`Cannot parse ${envName} as JSON: ${message}`);
+  }
+}
+
+function envLayer(env: NodeJS.ProcessEnv): ConfigLayer {
+  const layer: ConfigLayer = {};
+  for (const [key, envName] of Object.entries(ENV_KEYS) as [keyof AppConfig, string][]) {
+    const value = env[envName]?.trim();
+    if (!value) continue;
+    if (key === 'allowedHosts') layer.allowedHosts = splitHosts(value);
+    // a single hook: commands may well contain commas
+    else if (key === 'notify') layer.notify = [value];
+    else if (key === 'filters') layer.filters = parseFilterConfig(parseJsonEnv(value, envName), envName);
+    else if (key === 'auth') layer.auth = parseAuthRules(parseJsonEnv(value, envName), envName, process.cwd());
+    else if (NUMBER_KEYS.has(key)) (layer as Record<string, number>)[key] = parseNumber(key, value, envName);
+    else (layer as Record<string, string>)[key] = value;
+  }
+  return layer;
+}
+
+function cliLayer(options: CliOptions): ConfigLayer {
+  return {
+    siteRoot: options.siteRoot,
+    siteHost: options.siteHost,
+    siteIp: options.siteIp,
+    allowedHosts: options.allowedHosts ? splitHosts(options.allowedHosts) : undefined,
+    staffPrefix: options.staffPrefix,
+    followStaff: options.followStaff as StaffMode | undefined,
+    currentYear: options.currentYear,
+    downloadRoot: options.outDir,
+    concurrency: optionalNumber('concurrency', options.concurrency, '--concurrency'),
+    perHostRate: optionalNumber('perHostRate', options.perHostRate, '--host-rate'),
+    retries: optionalNumber('retries', options.retries, '--retries'),
+    retryDelay: optionalNumber('retryDelay', options.retryDelay, '--retry-delay'),
+    crawlDepth: optionalNumber('crawlDepth', options.crawlDepth, '--crawl-depth'),
+    reportDir: options.reportDir,
+    engine: options.engine as Engine | undefined,
+    watchInterval: optionalNumber('watchInterval', options.interval, '--interval'),
+    notify: options.notify.length ? options.notify : undefined,
+    logLevel: (options.logLevel ?? (options.quiet ? 'warn' : undefined)) as LogLevel | undefined,
+    logFile: options.logFile
+  };
+}
+
+/** Filter flags replace the matching top-level rules; per-course rules from the file still apply. */
+function cliFilterRules(options: CliOptions): FilterRules {
+  const rules: FilterRules = {};
+  if (options.includeExtensions.length) rules.includeExtensions = options.includeExtensions;
+  if (options.excludeExtensions.length) rules.excludeExtensions = options.excludeExtensions;
+  if (options.include.length) rules.include = options.include;
+  if (options.exclude.length) rules.exclude = options.exclude;
+  if (options.maxSize !== undefined) {
+    const size = parseSize(options.maxSize);
+    if (size === null) throw new ConfigError(`--max-size must be a size such as 200MB.`);
+    rules.maxSize = size;
+  }
+  const patterns = [...(rules.include ?? []), ...(rules.exclude ?? [])];
+  for (const pattern of patterns) {
+    try {
+      namePattern(pattern);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new ConfigError(`Invalid pattern "${pattern}": ${message}`);
+    }
+  }
+  return rules;
+}
+
+function mergeLayers(...layers: ConfigLayer[]): ConfigLayer {
+  const merged: ConfigLayer = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/** Resolves the configuration from defaults < config file < environment < CLI flags. */
+export function loadConfig(options: CliOptions, env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const explicitFile = options.configPath ?? env.CUMATDL_CONFIG;
+  const fileLayer = readConfigFile(path.resolve(explicitFile ?? CONFIG_FILE_NAME), Boolean(explicitFile));
+  const merged = mergeLayers(fileLayer, envLayer(env), cliLayer(options));
+
+  let siteUrl: URL;
+  try {
+    siteUrl = new URL(merged.siteRoot ?? DEFAULT_SITE_ROOT);
+  } catch {
+    throw new ConfigError(`Invalid site root "${merged.siteRoot}".`);
+  }
+  if (!siteUrl.pathname.endsWith('/')) siteUrl.pathname += '/';
+
+  if (merged.currentYear !== undefined && !CURRENT_YEAR_PATTERN.test(merged.currentYear)) {
+    throw new ConfigError(`Invalid current year "${merged.currentYear}" (expected e.g. 2526).`);
+  }
+
+  if (merged.engine !== undefined && !ENGINES.includes(merged.engine)) {
+    throw new ConfigError(`Invalid engine "${merged.engine}" (expected ${ENGINES.join(', ')}).`);
+  }
+
+  if (merged.followStaff !== undefined && !STAFF_MODES.includes(merged.followStaff)) {
+    throw new ConfigError(`Invalid staff mode "${merged.followStaff}" (expected ${STAFF_MODES.join(', ')}).`);
+  }
+
+  if (merged.logLevel !== undefined && !LOG_LEVELS.includes(merged.logLevel)) {
+    throw new ConfigError(`Invalid log level "${merged.logLevel}" (expected ${LOG_LEVELS.join(', ')}).`);
+  }
+
+  for (const spec of merged.notify ?? []) {
+    try {
+      createNotifier(spec);
+    } catch (err) {
+      throw new ConfigError(err instanceof Error ? err.message : String(err));
+    }
+  }
+  if (merged.watchInterval !== undefined && merged.watchInterval <= 0) {
+    throw new ConfigError('The watch interval must be greater than 0 minutes.');
+  }
+
+  const siteHost = merged.siteHost ?? siteUrl.hostname;
+  const siteIp = merged.siteIp ?? (siteUrl.hostname === new URL(DEFAULT_SITE_ROOT).hostname ? DEFAULT_SITE_IP : undefined);
+  const downloadRoot = path.resolve(merged.downloadRoot ?? DEFAULT_DOWNLOAD_ROOT);
+  return {
+    siteRoot: siteUrl.toString(),
+    siteHost,
+    siteIp,
+    allowedHosts: merged.allowedHosts ?? (siteIp ? [siteHost, siteIp] : [siteHost]),
+    staffPrefix: merged.staffPrefix ?? `${siteUrl.origin}/~`,
+    followStaff: merged.followStaff ?? 'none',
+    currentYear: merged.currentYear,
+    downloadRoot,
+    concurrency: Math.max(1, Math.floor(merged.concurrency ?? DEFAULT_CONCURRENCY)),
+    perHostRate: merged.perHostRate ?? DEFAULT_PER_HOST_RATE,
+    retries: Math.floor(merged.retries ?? DEFAULT_RETRIES),
+    retryDelay: merged.retryDelay ?? DEFAULT_RETRY_DELAY,
+    crawlDepth: Math.floor(merged.crawlDepth ?? DEFAULT_CRAWL_DEPTH),
+    reportDir: path.resolve(merged.reportDir ?? path.join(downloadRoot, REPORT_DIR_NAME)),
+    filters: { ...merged.filters, ...cliFilterRules(options) },
+    engine: merged.engine ?? 'http',
+    watchInterval: merged.watchInterval ?? DEFAULT_WATCH_INTERVAL,
+    notify: merged.notify ?? [],
+    // a password left out of both is asked for at startup
+    auth: (merged.auth ?? []).map(rule => ({
+      ...rule,
+      password: rule.password ?? (rule.passwordEnv ? env[rule.passwordEnv] : undefined)
+    })),
+    logLevel: merged.logLevel ?? 'info',
+    logFile: merged.logFile && path.resolve(merged.logFile)
+  };
+}
+
+/** Academic years start in August, so October 2025 and March 2026 both belong to 2526. */
+export function academicYearFromDate(date: Date = new Date()): string {
+  const startYear = date.getMonth() >= 7 ? date.getFullYear() : date.getFullYear() - 1;
+  const twoDigits = (n: number): string => String(n % 100).padStart(2, '0');
+  return `${twoDigits(startYear)}${twoDigits(startYear + 1)}`;
+}
+
+/** The current year is the newest folder without the `_` archive prefix, or derived from the date. */
+export function resolveCurrentYear(configured: string | undefined, yearChoices: YearChoice[]): string {
+  if (configured) return configured;
+  const live = yearChoices
+    .filter(y => !y.seg.startsWith('_'))
+    .map(y => y.seg)
+    .sort((a, b) => yearStart(a) - yearStart(b));
+  return live.pop() ?? academicYearFromDate();
+}
@@ -0,0 +1,48 @@
+import { canonicalSitePath, localPathFromUrl, siteRelativeParts } from './paths';
+
+/** Upper bound on sub-pages opened per course, whatever the depth. */
+export const MAX_CRAWL_PAGES = 200;
+
+/** `[year, course]` of a course builder URL, ignoring the `_` archive prefix and the `courses` alias. */
+function courseKey(url: URL): [string, string] | null {
+  const parts = siteRelativeParts(url.pathname);
+  if (!parts || parts.length < 2) return null;
+  return [parts[0].replace(/^_/, ''), decodeURIComponent(parts[1]).toLowerCase()];
+}
+
+export function isInCourseScope(url: string, courseHref: string): boolean {
+  try {
+    const target = new URL(url);
+    const course = new URL(courseHref);
+    if (target.hostname !== course.hostname) return false;
+    const targetKey = courseKey(target);
+    const courseKeyParts = courseKey(course);
+    return Boolean(targetKey && courseKeyParts) &&
+      targetKey![0] === courseKeyParts![0] &&
+      targetKey![1] === courseKeyParts![1];
+  } catch {
+    return false;
+  }
+}
+
+export const isDirectoryUrl = (url: string): boolean => new URL(url).pathname.endsWith('/');
+
+/** Pages the crawler opens instead of downloading: HTML files and directory listings. */
+export function isCrawlablePage(url: string): boolean {
+  const { pathname } = new URL(url);
+  return pathname.endsWith('/') || /\.s?html?$/i.test(pathname);
+}
+
+/** Identity of a page for the visited set: no query or hash, `courses` folded into `course_builder`. */
+export function pageKey(url: string): string {
+  const u = new URL(url);
+  u.hash = '';
+  u.search = '';
+  u.pathname = canonicalSitePath(u.pathname);
+  return u.toString();
+}
+
+/** Where a crawled page is saved; directory listings become `index.html` inside the folder. */
+export function pageFilePath(url: string, root: string): string {
+  return localPathFromUrl(isDirectoryUrl(url) ? new URL('index.html', url).href : url, root);
+}
@@ -0,0 +1,226 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { http } from './auth';
+import { FileTooLargeError } from './filters';
+import { createLogger } from './log';
+import { ManifestEntry } from './manifest';
+import { relativeToRoot } from './paths';
+
+export const PART_SUFFIX = '.part';
+
+const log = createLogger('download');
+
+export type SyncStatus = 'new' | 'updated' | 'unchanged';
+
+export interface DownloadResult {
+  status: SyncStatus;
+  entry: ManifestEntry;
+}
+
+export interface DownloadOptions {
+  root: string;
+  previous?: ManifestEntry;
+  /** Called with every received chunk size, for throughput. */
+  onBytes?: (bytes: number) => void;
+  /** Called with the bytes of the file received so far and the expected size when known. */
+  onProgress?: (received: number, total: number | null) => void;
+  /** Give up with a `FileTooLargeError` once the file turns out to be larger. */
+  maxSize?: number;
+  /** Aborts the transfer; the `.part` file is kept for the next run to resume. */
+  signal?: AbortSignal;
+}
+
+/** Written next to a `.part` file so an interrupted download can be resumed with `If-Range`. */
+interface PartMeta {
+  url: string;
+  validator: string;
+}
+
+async function hashFile(filePath: string, hash = crypto.createHash('sha256')): Promise<crypto.Hash> {
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk as Buffer);
+  return hash;
+}
+
+async function statSize(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.promises.stat(filePath)).size;
+  } catch {
+    return null;
+  }
+}
+
+const headerValue = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+/** Weak ETags can't be used in `If-Range`, so fall back to Last-Modified. */
+function rangeValidator(headers: Record<string, unknown>): string | undefined {
+  const etag = headerValue(headers.etag);
+  if (etag && !etag.startsWith('W/')) return etag;
+  return headerValue(headers['last-modified']);
+}
+
+async function readPartMeta(metaPath: string, url: string): Promise<PartMeta | null> {
+  try {
+    const meta = JSON.parse(await fs.promises.readFile(metaPath, 'utf8')) as PartMeta;
+    return meta.url === url && meta.validator ? meta : null;
+  } catch {
+    return null;
+  }
+}
+
+async function discardPart(partPath: string): Promise<void> {
+  await fs.promises.rm(partPath, { force: true });
+  await fs.promises.rm(`${partPath}.json`, { force: true });
+}
+
+function expectedSize(headers: Record<string, unknown>, offset: number): number | null {
+  const range = headerValue(headers['content-range'])?.match(/\/(\d+)$/);
+  if (range) return Number(range[1]);
+  const length = Number(headerValue(headers['content-length']));
+  return Number.isFinite(length) && length >= 0 ? offset + length : null;
+}
+
+/**
+ * Streams `url` into `<localPath>.part` and renames it over `localPath` once complete.
+ * An interrupted `.part` is resumed with a Range request when the server supports it.
+ * When the manifest has an entry and the local copy still matches its size, the request
+ * is conditional and a 304 keeps the file untouched.
+ */
+export async function downloadFile(url: string, localPath: string, options: DownloadOptions): Promise<DownloadResult> {
+  const { root, previous, onBytes, onProgress, maxSize, signal } = options;
+  await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+  const partPath = `${localPath}${PART_SUFFIX}`;
+  const metaPath = `${partPath}.json`;
+  const localSize = await statSize(localPath);
+  const localIntact = Boolean(previous) && localSize === previous!.size;
+
+  const meta = await readPartMeta(metaPath, url);
+  const partSize = await statSize(partPath);
+  const resumeFrom = meta && partSize ? partSize : 0;
+  if (!resumeFrom && (partSize !== null || meta)) await discardPart(partPath);
+
+  const headers: Record<string, string> = {};
+  if (resumeFrom) {
+    headers.Range = `bytes=${resumeFrom}-`;
+    headers['If-Range'] = meta!.validator;
+  } else if (localIntact) {
+    if (previous!.etag) headers['If-None-Match'] = previous!.etag;
+    if (previous!.lastModified) headers['If-Modified-Since'] = previous!.lastModified;
+  }
+
+  const response = await http.get(url, {
+    responseType: 'stream',
+    timeout: 120_000,
+    headers,
+    signal,
+    validateStatus: status => (status >= 200 && status < 300) || status === 304 || status === 416
+  });
+  const syncedAt = new Date().toISOString();
+
+  const appending = response.status === 206;
+  const rangeStart = Number(headerValue(response.headers['content-range'])?.match(/bytes (\d+)-/)?.[1]);
+  if (response.status === 416 || (appending && rangeStart !== resumeFrom)) {
+    response.data.destroy();
+    if (!resumeFrom) throw new Error(`Unexpected ${response.status} for a request without Range`);
+    // the server can't continue the part we have: start over from scratch
+    await discardPart(partPath);
+    return downloadFile(url, localPath, options);
+  }
+
+  if (response.status === 304) {
+    response.data.destroy();
+    if (!previous) throw new Error('Unexpected 304 for an unconditional request');
+    log.status('SAME', localPath, { url, path: localPath });
+    return {
+      status: 'unchanged',
+      entry: {
+        ...previous,
+        etag: headerValue(response.headers.etag) ?? previous.etag,
+        lastModified: headerValue(response.headers['last-modified']) ?? previous.lastModified,
+        contentType: headerValue(response.headers['content-type']) ?? previous.contentType,
+        syncedAt
+      }
+    };
+  }
+
+  if (appending) {
+    log.status('RESUME', `${localPath} at ${resumeFrom} bytes`, { url, path: localPath, offset: resumeFrom });
+  } else {
+    const validator = rangeValidator(response.headers);
+    if (validator) await fs.promises.writeFile(metaPath, JSON.stringify({ url, validator } satisfies PartMeta), 'utf8');
+  }
+
+  const hash = appending ? await hashFile(partPath) : crypto.createHash('sha256');
+  const total = expectedSize(response.headers, appending ? resumeFrom : 0);
+  if (maxSize !== undefined && total !== null && total > maxSize) {
+    response.data.destroy();
+    await discardPart(partPath);
+    throw new FileTooLargeError(total, maxSize);
+  }
+  let received = appending ? resumeFrom : 0;
+  onProgress?.(received, total);
+  const tap = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      received += chunk.length;
+      // servers that send no Content-Length are cut off mid-stream
+      if (maxSize !== undefined && received > maxSize) {
+        callback(new FileTooLargeError(null, maxSize));
+        return;
+      }
+      onBytes?.(chunk.length);
+      onProgress?.(received, total);
+      callback(null, chunk);
+    }
+  });
+  try {
+    await pipeline(response.data, tap, fs.createWriteStream(partPath, { flags: appending ? 'a' : 'w' }));
+  } catch (err) {
+    if (err instanceof FileTooLargeError) await discardPart(partPath);
+    throw err;
+  }
+
+  if (total !== null && received !== total) {
+    // keep the part; the retry resumes it
+    throw Object.assign(new Error(`Connection closed after ${received} of ${total} bytes`), {
+      code: 'ERR_STREAM_PREMATURE_CLOSE'
+    });
+  }
+
+  const digest = hash.digest('hex');
+  // a rewritten local copy is compared by what the server sent for it
+  let localDigest: string | null = null;
+  if (localIntact) localDigest = previous!.remoteSha256 ?? previous!.sha256;
+  else if (localSize !== null) localDigest = (await hashFile(localPath)).digest('hex');
+
+  const changed = localDigest !== digest;
+  if (changed) await fs.promises.rename(partPath, localPath);
+  await discardPart(partPath);
+
+  const status: SyncStatus = localDigest === null && !previous ? 'new' : changed ? 'updated' : 'unchanged';
+  const label = ({ new: 'DONE', updated: 'UPDATED', unchanged: 'SAME' } as const)[status];
+  log.status(label, localPath, { url, path: localPath, size: received });
+
+  const validators = {
+    etag: headerValue(response.headers.etag),
+    lastModified: headerValue(response.headers['last-modified']),
+    contentType: headerValue(response.headers['content-type'])
+  };
+  // the file on disk was kept, and with it whatever the manifest says about it
+  if (!changed && previous) return { status, entry: { ...previous, ...validators, syncedAt } };
+
+  return {
+    status,
+    entry: {
+      url,
+      path: relativeToRoot(localPath, root),
+      ...validators,
+      size: received,
+      sha256: digest,
+      syncedAt
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import path from 'path';
+import { globToRegExp } from './cli';
+import { formatBytes } from './pool';
+
+export interface FilterRules {
+  /** Only download these extensions (case-insensitive, without the dot); unset allows all. */
+  includeExtensions?: string[];
+  excludeExtensions?: string[];
+  /** File name globs (`week*.pdf`) or `/regex/flags`; a file must match one of them. */
+  include?: string[];
+  /** File name globs or `/regex/flags` that are never downloaded. */
+  exclude?: string[];
+  /** Bytes; larger files are skipped once the server reports their size. */
+  maxSize?: number;
+}
+
+export interface FilterConfig extends FilterRules {
+  /** Course folder globs (`MATH1010*`) -> rules replacing the matching top-level ones. */
+  courses?: Record<string, FilterRules>;
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, b: 1, k: 1024, kb: 1024, m: 1024 ** 2, mb: 1024 ** 2, g: 1024 ** 3, gb: 1024 ** 3 };
+
+/** Parses `5000`, `200MB` or `1.5G` into bytes; null when unreadable. */
+export function parseSize(value: string | number): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  const match = value.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([kmg]?b?)$/);
+  if (!match) return null;
+  return Math.round(Number(match[1]) * SIZE_UNITS[match[2]]);
+}
+
+export const normalizeExtension = (ext: string): string => ext.trim().replace(/^\./, '').toLowerCase();
+
+/** `/pattern/flags` is a regular expression, anything else a case-insensitive glob. */
+export function namePattern(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return regex ? new RegExp(regex[1], regex[2]) : globToRegExp(pattern);
+}
+
+/** The top-level rules with the fields of every course entry whose glob matches `course` laid over them. */
+export function rulesForCourse(filters: FilterConfig, course: string): FilterRules {
+  const { courses = {}, ...rules } = filters;
+  let resolved: FilterRules = rules;
+  for (const [pattern, override] of Object.entries(courses)) {
+    if (globToRegExp(pattern).test(course)) resolved = { ...resolved, ...override };
+  }
+  return resolved;
+}
+
+function fileName(url: string): string {
+  const last = new URL(url).pathname.split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+}
+
+/** The rule that keeps `url` from being downloaded, e.g. `excludeExtensions: mp4`, or null. */
+export function excludedBy(url: string, rules: FilterRules): string | null {
+  let name: string;
+  try {
+    name = fileName(url);
+  } catch {
+    return null;
+  }
+  const ext = normalizeExtension(path.posix.extname(name));
+  if (rules.includeExtensions && !rules.includeExtensions.map(normalizeExtension).includes(ext)) {
+    return `includeExtensions: ${ext || '(none)'} not listed`;
+  }
+  if (ext && rules.excludeExtensions?.map(normalizeExtension).includes(ext)) {
+    return `excludeExtensions: ${ext}`;
+  }
+  if (rules.include?.length && !rules.include.some(pattern => namePattern(pattern).test(name))) {
+    return `include: matches none of ${rules.include.join(', ')}`;
+  }
+  const excluded = rules.exclude?.find(pattern => namePattern(pattern).test(name));
+  if (excluded) return `exclude: ${excluded}`;
+  return null;
+}
+
+export const sizeRule = (maxSize: number): string => `maxSize: over ${formatBytes(maxSize)}`;
+
+/** Thrown by `downloadFile` once the server announces (or streams) more than `maxSize` bytes. */
+export class FileTooLargeError extends Error {
+  constructor(readonly size: number | null, readonly maxSize: number) {
+    super(`File larger than ${formatBytes(maxSize)}${size === null ? '' : ` (${formatBytes(size)})`}`);
+    this.name = 'FileTooLargeError';
+  }
+}
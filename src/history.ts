@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { CourseManifest, loadManifest, MANIFEST_FILE_NAME } from './manifest';
+import { COURSE_PATTERN, courseCode, YEAR_PATTERN, yearStart } from './paths';
+import { formatBytes } from './pool';
+
+export const HISTORY_DIR_NAME = '_history';
+
+export interface CourseOffering {
+  /** Local year folder, e.g. `_2324`. */
+  year: string;
+  /** Course folder name inside the year, e.g. `MATH1010A`. */
+  course: string;
+  hasIndex: boolean;
+  /** Files in the manifest that are still linked from the course page. */
+  files: number;
+  bytes: number;
+}
+
+/** A course folder found under the download root. */
+export interface CourseFolder {
+  year: string;
+  course: string;
+  dir: string;
+  hasIndex: boolean;
+  /** Null for folders without a manifest, e.g. courses without downloadable files. */
+  manifest: CourseManifest | null;
+}
+
+export interface CourseHistory {
+  code: string;
+  offerings: CourseOffering[];
+}
+
+async function listDirs(dir: string, pattern: RegExp): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    return entries.filter(e => e.isDirectory() && pattern.test(e.name)).map(e => e.name);
+  } catch {
+    return [];
+  }
+}
+
+/** Every year/course folder under the download root, oldest year first. */
+export async function scanCourseFolders(root: string): Promise<CourseFolder[]> {
+  const folders: CourseFolder[] = [];
+  const years = (await listDirs(root, YEAR_PATTERN)).sort((a, b) => yearStart(a) - yearStart(b));
+  for (const year of years) {
+    for (const course of await listDirs(path.join(root, year), COURSE_PATTERN)) {
+      const dir = path.join(root, year, course);
+      folders.push({
+        year,
+        course,
+        dir,
+        hasIndex: fs.existsSync(path.join(dir, 'index.html')),
+        manifest: fs.existsSync(path.join(dir, MANIFEST_FILE_NAME)) ? await loadManifest(dir, course) : null
+      });
+    }
+  }
+  return folders;
+}
+
+/**
+ * Groups every course folder under the download root by course code, so offerings of
+ * e.g. MATH1010 from different years end up together. Built from disk, so courses
+ * downloaded by earlier runs are included.
+ */
+export async function scanCourseHistory(root: string): Promise<CourseHistory[]> {
+  const byCode = new Map<string, CourseOffering[]>();
+  for (const folder of await scanCourseFolders(root)) {
+    const current = Object.values(folder.manifest?.files ?? {}).filter(entry => !entry.removedAt);
+    const offering: CourseOffering = {
+      year: folder.year,
+      course: folder.course,
+      hasIndex: folder.hasIndex,
+      files: current.length,
+      bytes: current.reduce((sum, entry) => sum + entry.size, 0)
+    };
+    const code = courseCode(folder.course);
+    byCode.set(code, [...(byCode.get(code) ?? []), offering]);
+  }
+  return Array.from(byCode, ([code, offerings]) => ({ code, offerings })).sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/** One line per course, e.g. `MATH1010: 1920 (12 files), _2324 (index only)`. */
+export function formatCourseHistory(history: CourseHistory): string {
+  const offerings = history.offerings.map(o => {
+    const label = o.course.toUpperCase() === history.code ? o.year : `${o.year}/${o.course}`;
+    return `${label} (${o.files ? `${o.files} files` : o.hasIndex ? 'index only' : 'empty'})`;
+  });
+  return `${history.code}: ${offerings.join(', ')}`;
+}
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const hrefFor = (...segments: string[]): string => segments.map(seg => encodeURIComponent(seg)).join('/');
+
+/**
+ * Writes `<root>/_history/index.html`, a table with one row per course code and one column
+ * per year, each cell linking to that year's saved course index, plus `history.json`.
+ */
+export async function writeHistoryPage(root: string, histories: CourseHistory[]): Promise<string> {
+  const dir = path.join(root, HISTORY_DIR_NAME);
+  const years = Array.from(new Set(histories.flatMap(h => h.offerings.map(o => o.year))))
+    .sort((a, b) => yearStart(a) - yearStart(b));
+
+  const rows = histories.map(history => {
+    const cells = years.map(year => {
+      const offerings = history.offerings.filter(o => o.year === year);
+      const links = offerings.map(o => {
+        const text = o.course.toUpperCase() === history.code ? (o.files ? String(o.files) : '·') : o.course;
+        const title = `${o.course} ${year}: ${o.files} files, ${formatBytes(o.bytes)}`;
+        return o.hasIndex
+          ? `<a href="../${hrefFor(year, o.course, 'index.html')}" title="${escapeHtml(title)}">${escapeHtml(text)}</a>`
+          : `<span title="${escapeHtml(title)}">${escapeHtml(text)}</span>`;
+      });
+      return `<td>${links.join(' ')}</td>`;
+    });
+    return `<tr><th>${escapeHtml(history.code)}</th>${cells.join('')}</tr>`;
+  });
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Course history</title>
+<style>
+  body { font-family: sans-serif; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 2px 6px; text-align: center; }
+  tbody th { text-align: left; }
+</style>
+</head>
+<body>
+<h1>Course history</h1>
+<p>Number of files downloaded per course and year; a dot means only the course page was saved.</p>
+<table>
+<thead><tr><th>Course</th>${years.map(y => `<th>${escapeHtml(y)}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.join('\n')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+
+  await fs.promises.mkdir(dir, { recursive: true });
+  const htmlPath = path.join(dir, 'index.html');
+  await fs.promises.writeFile(htmlPath, html, 'utf8');
+  await fs.promises.writeFile(path.join(dir, 'history.json'), `${JSON.stringify(histories, null, 2)}\n`, 'utf8');
+  return htmlPath;
+}
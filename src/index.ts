@@ -1,112 +1,136 @@
 /* eslint-disable no-console */
-import axios from 'axios';
 import chalk from 'chalk';
 import fs from 'fs';
-import https from 'https';
-import logUpdate from 'log-update';
 import path from 'path';
-import puppeteer, { Page } from 'puppeteer';
 import readline from 'readline';
-
-const PMA_CBROOT = 'https://www.math.cuhk.edu.hk/course_builder/';
-const PMA_IP = '137.189.49.33';
-const PMA_NAME = 'www.math.cuhk.edu.hk';
-
-const ALLOWED_HOSTS = new Set([PMA_NAME, PMA_IP]);
-const DOWNLOAD_ROOT = path.resolve('./dl/');
-
-const COURSE_PATTERN = /^[A-Za-z]{4}\d{4}.*$/;
-const YEAR_PATTERN = /^_?\d{4}$/;
-const YEAR_FIX_REGEX_SOURCE = '(\\/course_builder\\/)(?:_?\\d{4})(\\/)';
-const STAFF_PREFIX = 'https://www.math.cuhk.edu.hk/~';
-
-const CURRENT_YEAR = '2526';
+import { Writable } from 'stream';
+import { AssetCollector, createAssetCollector, DownloadTarget, isStylesheet, localizeStylesheet } from './assets';
+import { addAuthRule, challengeFor, configureAuth, describeAuthRule, needsPassword } from './auth';
+import { writeCatalogue } from './catalogue';
+import { CliOptions, HELP_TEXT, matchCourses, matchYears, parseCliArgs, parseCourseSelection, SelectionError, selectionFromOptions } from './cli';
+import { AppConfig, CONFIG_FILE_NAME, ConfigError, loadConfig, resolveCurrentYear } from './config';
+import { isCrawlablePage, isDirectoryUrl, isInCourseScope, MAX_CRAWL_PAGES, pageFilePath, pageKey } from './crawl';
+import { downloadFile, PART_SUFFIX } from './download';
+import { excludedBy, FileTooLargeError, FilterRules, rulesForCourse, sizeRule } from './filters';
+import { CourseFolder, formatCourseHistory, scanCourseFolders, scanCourseHistory, writeHistoryPage } from './history';
+import {
+  createInventory,
+  createInventoryYear,
+  emptyInventoryTotals,
+  fetchRemoteInfo,
+  finishInventory,
+  finishInventoryCourse,
+  formatInventoryTable,
+  formatInventoryTotals,
+  Inventory,
+  InventoryCourse,
+  inventoryFile,
+  InventoryYear
+} from './inventory';
+import { linkSavedPages } from './links';
+import { clearProgressLine, configureLogging, createLogger, setProgressLine } from './log';
+import { emptySyncStats, formatSyncStats, loadManifest, markRemoved, saveManifest } from './manifest';
+import { buildCourseMetadata, CourseOutline, extractCourseOutline, saveCourseMetadata } from './metadata';
+import { setMojibakeOverrides } from './mojibake';
+import { capturePage } from './patcher';
+import {
+  configureSitePaths,
+  COURSE_PATTERN,
+  courseCode,
+  localPathFromUrl,
+  relativeToRoot,
+  savePathMap,
+  siteCoursePaths,
+  YEAR_PATTERN,
+  yearStart
+} from './paths';
+import { createDownloadPool, DownloadPool, formatBytes, PoolStats, sleep, withRetry } from './pool';
+import {
+  addUnresolvedStrings,
+  CourseReport,
+  createCourseReport,
+  createRunReport,
+  createYearReport,
+  FileReport,
+  finishCourseReport,
+  LinkDecision,
+  RunReport,
+  saveRunReport
+} from './report';
+import { CourseState, createRunState, loadRunState, PendingFile, RUN_STATE_FILE_NAME, RunStateTracker, trackRunState } from './resume';
+import { createSession, hasPasswordField, isDirectoryListing, listingLinks, pageLinks, PageSession } from './session';
+import { alternateIndexUrls, BLOCKED_SNAPSHOT_NAME, saveSnapshot, snapshotName } from './snapshots';
+import { isStaffUrl, staffHome, staffLocalPath } from './staff';
+import { CourseChoice, CourseProgressPayload, CourseSelection, FileTransferProgress, PatchConfig, YearChoice } from './types';
+import {
+  checkLocalFile,
+  checkUnmanagedFiles,
+  compareRemote,
+  createVerifyReport,
+  findPartialFiles,
+  formatVerifyTotals,
+  isBad,
+  needsRepair,
+  saveVerifyReport,
+  VerifyCourse,
+  VerifyReport
+} from './verify';
+import {
+  appendChangelog,
+  buildChangelogEntry,
+  ChangelogEntry,
+  createNotifier,
+  failedChangelogEntry,
+  formatChangelogEntry,
+  hasChanges,
+  notifyAll
+} from './watch';
+
+/** Matches the year folder right below the site root, e.g. `/course_builder/2324/`. */
+const yearFixSource = (sitePath: string): string =>
+  `^(${sitePath.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&')})(?:_?\\d{4})(\\/)`;
+
+let appConfig: AppConfig;
+
+const log = createLogger('main');
+const discoveryLog = createLogger('discovery');
+const downloadLog = createLogger('download');
+const verifyLog = createLogger('verify');
+const watchLog = createLogger('watch');
+
+/** Aborted by the first Ctrl+C: transfers stop, no further course is started and the run state is kept. */
+const interruption = new AbortController();
 
 const stringMapPath = path.resolve('stringmap.json');
 const STRING_MAP: Record<string, string> = fs.existsSync(stringMapPath)
   ? JSON.parse(fs.readFileSync(stringMapPath, 'utf8'))
   : {};
-
-const httpsAgent = new https.Agent({ rejectUnauthorized: false });
-
-interface YearChoice {
-  label: string;
-  displayLabel: string;
-  href: string;
-  seg: string;
-}
-
-interface CourseChoice {
-  label: string;
-  displayLabel: string;
-  href: string;
-}
-
-interface CourseProgressPayload {
-  courseName: string;
-  downloaded: number;
-  total: number;
-}
-
-interface PatchConfig {
-  applyYearRewrite: boolean;
-  yearExpSource: string;
-  yearPrefix: string;
-  courseYearDigits: string;
-  staffPrefix: string;
-  forceHostReplacement: boolean;
-  hostNeedingFix: string;
-  hostReplacement: string;
-  replaceCourseBuilderPaths: boolean;
-  blockedCoursesOnly: boolean;
-  stringMap: Record<string, string>;
-  missingLogger?: (msg: string) => void;
-  courseProgressCb?: (payload: CourseProgressPayload | null) => void;
-}
-
-/* ---------- persistent progress bar ---------- */
-let currentProgressLine = '';
-
-const originalLog = console.log.bind(console);
-const originalError = console.error.bind(console);
-
-console.log = (...args: unknown[]): void => {
-  if (currentProgressLine) logUpdate.clear();
-  originalLog(...args);
-  if (currentProgressLine) logUpdate(currentProgressLine);
-};
-
-console.error = (...args: unknown[]): void => {
-  if (currentProgressLine) logUpdate.clear();
-  originalError(...args);
-  if (currentProgressLine) logUpdate(currentProgressLine);
-};
-
-function setProgressLine(text: string): void {
-  currentProgressLine = text;
-  if (currentProgressLine) {
-    logUpdate(currentProgressLine);
-  } else {
-    logUpdate.clear();
-  }
-}
-
-function clearProgressLine(): void {
-  currentProgressLine = '';
-  logUpdate.clear();
-  logUpdate.done();
-}
+setMojibakeOverrides(STRING_MAP);
 
 /* ---------- helper functions ---------- */
 
+/** Asks on stderr, so stdout keeps nothing but results and log events. */
 function prompt(question: string): Promise<string> {
-  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
   return new Promise(resolve => rl.question(question, answer => {
     rl.close();
     resolve(answer);
   }));
 }
 
+/** Like `prompt`, without echoing what is typed. */
+function promptSecret(question: string): Promise<string> {
+  // readline echoes into a stream that drops everything
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = readline.createInterface({ input: process.stdin, output: muted, terminal: true });
+  process.stderr.write(question);
+  return new Promise(resolve => rl.question('', answer => {
+    rl.close();
+    process.stderr.write('\n');
+    resolve(answer);
+  }));
+}
+
 function listChoices<T extends { displayLabel: string; href: string }>(items: T[]): void {
   const width = String(items.length).length;
   items.forEach((item, idx) => {
@@ -115,50 +139,36 @@ function listChoices<T extends { displayLabel: string; href: string }>(items: T[
   });
 }
 
-async function chooseYear(yearChoices: YearChoice[]): Promise<YearChoice> {
-  console.log(chalk.bold('\nSelect an academic year:'));
+async function confirm(question: string): Promise<boolean> {
+  const ans = await prompt(chalk.yellow(`${question} [Y/n]: `));
+  return !/^n/i.test(ans.trim());
+}
+
+async function chooseYears(yearChoices: YearChoice[]): Promise<YearChoice[]> {
+  console.log(chalk.bold('\nSelect academic year(s):'));
   listChoices(yearChoices);
+  const chronological = (years: YearChoice[]): YearChoice[] =>
+    [...years].sort((a, b) => yearStart(a.seg) - yearStart(b.seg));
   while (true) {
     const rangeLabel = chalk.gray(`1-${yearChoices.length}`);
-    const ans = await prompt(chalk.yellow(`Enter a number [${rangeLabel}]: `));
-    const n = Number(ans);
-    if (Number.isInteger(n) && n >= 1 && n <= yearChoices.length) return yearChoices[n - 1];
-    console.log('Invalid choice. Try again.');
-  }
-}
-
-function parseCourseSelection(input: string, max: number): number[] {
-  const selections = new Set<number>();
-  const chunks = input.split(',').map(s => s.trim()).filter(Boolean);
-  if (!chunks.length) throw new Error('No valid selections provided.');
-
-  for (const chunk of chunks) {
-    const range = chunk.match(/^(\d+)\s*-\s*(\d+)$/);
-    if (range) {
-      let start = Number(range[1]);
-      let end = Number(range[2]);
-      if (!Number.isInteger(start) || !Number.isInteger(end)) {
-        throw new Error(`Invalid range "${chunk}".`);
-      }
-      if (start > end) [start, end] = [end, start];
-      if (start < 1 || end > max) {
-        throw new Error(`Range "${chunk}" is out of bounds (1-${max}).`);
-      }
-      for (let i = start; i <= end; i++) selections.add(i - 1);
-      continue;
+    const ans = await prompt(
+      chalk.yellow(`Enter a number/list [${rangeLabel}], ranges, or ${chalk.gray("-1")} for all: `)
+    );
+    const trimmed = ans.trim();
+    if (trimmed === '-1') {
+      console.log(chalk.greenBright('> Downloading from ALL years.\n'));
+      return chronological(yearChoices);
     }
-
-    const num = Number(chunk);
-    if (!Number.isInteger(num) || num < 1 || num > max) {
-      throw new Error(`Invalid selection "${chunk}" (must be within 1-${max}).`);
+    try {
+      return chronological(parseCourseSelection(trimmed, yearChoices.length).map(i => yearChoices[i]));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.log(chalk.red(message));
     }
-    selections.add(num - 1);
   }
-
-  return Array.from(selections).sort((a, b) => a - b);
 }
 
-async function chooseCourses(courseChoices: CourseChoice[]): Promise<{ courses: CourseChoice[]; allSelected: boolean; blockedOnly: boolean }> {
+async function chooseCourses(courseChoices: CourseChoice[]): Promise<CourseSelection> {
   console.log(chalk.bold(`\nSelect course(s):`));
   listChoices(courseChoices);
   while (true) {
@@ -189,34 +199,19 @@ const segmentFromHref = (href: string): string =>
 const normalizeYear = (seg: string): string => (seg.startsWith('_') ? seg : `_${seg}`);
 const yearDigits = (yearName: string): string => yearName.replace(/^_/, '');
 
-function localPathFromUrl(url: string): string {
-  const u = new URL(url);
-  const parts = u.pathname.split('/').filter(Boolean);
-  if (parts[0] === 'course_builder' || parts[0] === 'courses') parts.shift();
-  const decoded = parts.map(seg => decodeURIComponent(seg));
-  return path.join(DOWNLOAD_ROOT, ...decoded);
-}
-
-async function downloadFile(url: string): Promise<void> {
-  const localPath = localPathFromUrl(url);
-  await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
-  if (fs.existsSync(localPath)) {
-    console.log(`[${chalk.cyanBright('CUMATDL')}] ${chalk.gray("SKIP")} existing file: ${localPath}`);
-    return;
+const safeDecodeURI = (url: string): string => {
+  try {
+    return decodeURI(url);
+  } catch {
+    return url;
   }
-  const response = await axios.get(url, {
-    responseType: 'arraybuffer',
-    httpsAgent,
-    timeout: 120_000
-  });
-  await fs.promises.writeFile(localPath, response.data);
-  console.log(`[${chalk.cyanBright('CUMATDL')}] ${chalk.greenBright("DONE")} ${localPath}`);
-}
+};
 
 function renderProgress(
   completed: number,
   total: number,
-  courseProgress?: CourseProgressPayload | null
+  courseProgress: CourseProgressPayload[] = [],
+  transfers?: PoolStats
 ): void {
   if (total <= 0) {
     clearProgressLine();
@@ -227,11 +222,23 @@ function renderProgress(
   const bar = `${'█'.repeat(filled)}${'-'.repeat(barLen - filled)}`;
   const percent = ((completed / total) * 100).toFixed(1);
   const lines = [chalk.yellow(`[Overall%] [${bar}] ${completed}/${total} (${percent}%)`)];
-  if (courseProgress && courseProgress.total > 0) {
-    const coursePercent = ((courseProgress.downloaded / courseProgress.total) * 100).toFixed(1);
+  for (const progress of courseProgress) {
+    if (progress.total <= 0) continue;
+    const coursePercent = ((progress.downloaded / progress.total) * 100).toFixed(1);
+    const files = (progress.transfers ?? []).map(t =>
+      t.total ? `${t.name} ${formatBytes(t.received)}/${formatBytes(t.total)}` : `${t.name} ${formatBytes(t.received)}`
+    );
     lines.push(
       chalk.yellow(
-        `[Course %] ${courseProgress.courseName}: ${courseProgress.downloaded}/${courseProgress.total} (${coursePercent}%)`
+        `[Course %] ${progress.courseName}: ${progress.downloaded}/${progress.total} (${coursePercent}%)` +
+        (files.length ? chalk.gray(` | ${files.join(', ')}`) : '')
+      )
+    );
+  }
+  if (transfers && (transfers.active || transfers.queued)) {
+    lines.push(
+      chalk.yellow(
+        `[Transfer] ${transfers.active} active, ${transfers.queued} queued, ${formatBytes(transfers.bytesPerSecond)}/s`
       )
     );
   }
@@ -240,265 +247,977 @@ function renderProgress(
 
 /* ---------- per course ---------- */
 
-async function processCourse(page: Page, courseChoice: CourseChoice, config: PatchConfig): Promise<void> {
-  console.log(chalk.bold(`\nNavigating to course: ${courseChoice.label}`));
-  await page.goto(courseChoice.href, { waitUntil: ['domcontentloaded', 'networkidle0'] });
-  
-  const hasBeforeBlock = await page.$$eval('a', (anchors: any[]) =>
-    anchors.some(a => (a.textContent || '').trim() === 'index-before_block.html')
-  );
-  if (hasBeforeBlock) {
-    console.log(`[${chalk.cyanBright('CUMATDL')}] Unblocking course ${courseChoice.label}`);
-    const unblockUrl = new URL('index-before_block.html', courseChoice.href).toString();
-    await page.goto(unblockUrl, { waitUntil: ['domcontentloaded', 'networkidle0'] });
-    config.replaceCourseBuilderPaths = true;
-  } else {
-    config.replaceCourseBuilderPaths = false;
-    if (config.blockedCoursesOnly) {
-      console.log("Not blocked, skip.");
-      return;
-    }
-  }
+const PROGRESS_THROTTLE_MS = 250;
+
+interface CourseDiscovery {
+  course: CourseChoice;
+  courseDir: string;
+  /** Files that passed the host/path filter plus the assets of the saved pages. */
+  files: DownloadTarget[];
+  assets: AssetCollector;
+  /** Saved pages by `pageKey`, the course index included. */
+  pages: Map<string, string>;
+  /** Filter rules for this course; `maxSize` is only known to hold once a download starts. */
+  rules: FilterRules;
+  /** Read off the patched course index for `course.json`; null when the index wasn't captured. */
+  outline: CourseOutline | null;
+  report: CourseReport;
+  /** Rebuilt from the run state with only the files left over, so nothing is marked removed. */
+  resumed?: boolean;
+}
 
-  console.log(
-    `[${chalk.cyanBright('CUMATDL')}] Year rewrite: ${config.applyYearRewrite ? 'enabled' : 'disabled'}; host fix: ${
-    config.forceHostReplacement ? 'enabled' : 'disabled'
-    }`
-  );
+/** Where a link of a course is saved: staff files below `<course>/staff/`, the rest mirrors the site. */
+function linkLocalPath(url: string, courseDir: string): string {
+  return isStaffUrl(url, appConfig.staffPrefix)
+    ? staffLocalPath(url, appConfig.staffPrefix, courseDir, appConfig.downloadRoot)
+    : localPathFromUrl(url, appConfig.downloadRoot);
+}
 
-  const evaluateWithRetry = async <T>(
-    fn: (config: PatchConfig) => T | Promise<T>,
-    arg: PatchConfig,
-    retries = 3
-  ): Promise<T> => {
-    for (let attempt = 0; attempt < retries; attempt++) {
+/**
+ * Breadth-first walk over the HTML pages and directory listings linked from the course index,
+ * staying inside the course folder and at most `crawlDepth` links deep. Every page is patched
+ * and saved like the index; the returned URLs include the index's own links.
+ * With `followStaff: pages`, staff pages linked from course pages are opened too, whatever
+ * their depth, but nothing is followed from them and only links into the same home count.
+ */
+async function crawlSubPages(
+  page: PageSession,
+  courseChoice: CourseChoice,
+  courseDir: string,
+  indexPageUrls: string[],
+  indexUrls: string[],
+  config: PatchConfig,
+  assets: AssetCollector,
+  report: CourseReport
+): Promise<{ downloadUrls: string[]; crawledPages: Map<string, string> }> {
+  const downloadUrls = [...indexUrls];
+  const crawledPages = new Map<string, string>();
+  const visited = new Set(indexPageUrls.map(pageKey));
+  const queue: { url: string; depth: number }[] = [];
+  const enqueue = (urls: string[], depth: number): void => {
+    for (const url of urls) {
+      const staffPage = appConfig.followStaff === 'pages' && isStaffUrl(url, config.staffPrefix);
+      if (depth > appConfig.crawlDepth && !staffPage) continue;
       try {
-        return await page.evaluate(fn, arg);
-      } catch (err) {
-        const message = err instanceof Error ? err.message : String(err);
-        const destroyed = /Execution context was destroyed|Cannot find context with specified id/i.test(message);
-        if (!destroyed || attempt === retries - 1) throw err;
-        console.log("[Patcher] Page refreshed itself; retrying evaluation...");
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        await page.waitForFunction(() => document.readyState === 'complete', { timeout: 10_000 }).catch(() => {});
+        if (!isCrawlablePage(url) || !(staffPage || isInCourseScope(url, courseChoice.href))) continue;
+      } catch {
+        continue;
       }
+      const key = pageKey(url);
+      if (visited.has(key)) continue;
+      visited.add(key);
+      queue.push({ url, depth });
     }
-    throw new Error('Evaluation retries exceeded');
   };
+  enqueue(indexUrls, 1);
 
-  const { downloadUrls = [], serializedHtml = '' } = await evaluateWithRetry(
-    (config: PatchConfig) => {
-      const yearExp = config.applyYearRewrite ? new RegExp(config.yearExpSource, 'i') : null;
-      const urls: string[] = [];
-
-      const replacements = Object.entries(config.stringMap ?? {});
-      if (replacements.length) {
-        let replacedCount = 0;
-        const applyReplacements = (text: string | null): string => {
-          if (!text) return '';
-          let next = text;
-          for (const [bad, good] of replacements) {
-            if (next.includes(bad)) {
-              const updated = next.split(bad).join(good);
-              if (updated !== next) {
-                replacedCount += 1;
-                next = updated;
-              }
-            }
-          }
-          return next;
-        };
-
-        const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
-        const textNodes: Node[] = [];
-        while (walker.nextNode()) textNodes.push(walker.currentNode!);
-        textNodes.forEach(node => {
-          node.nodeValue = applyReplacements(node.nodeValue);
-        });
-
-        document.querySelectorAll('[href]').forEach(el => {
-          const value = el.getAttribute('href');
-          const next = applyReplacements(value);
-          if (next !== value) {
-            el.setAttribute('href', next);
-            console.log(`[Patcher] [REPLACE] {${value}} -> {${next}}`)
-          }
-        });
+  while (queue.length && crawledPages.size < MAX_CRAWL_PAGES) {
+    const { url, depth } = queue.shift()!;
+    const home = staffHome(url, config.staffPrefix);
+    discoveryLog.info(`Crawling ${decodeURI(url)} (${home ? 'staff page' : `depth ${depth}`})`, { url });
+    try {
+      const status = await page.goto(url);
+      if (status !== null && (status < 200 || status >= 300)) throw new Error(`HTTP ${status}`);
+      const htmlPath = home
+        ? staffLocalPath(decodeURI(url), config.staffPrefix, courseDir, appConfig.downloadRoot)
+        : pageFilePath(decodeURI(url), appConfig.downloadRoot);
+      const capture = await capturePage(page, config, assets.localizerFor(htmlPath));
+      if (!config.dryRun) {
+        await fs.promises.mkdir(path.dirname(htmlPath), { recursive: true });
+        await fs.promises.writeFile(htmlPath, capture.serializedHtml, 'utf8');
+        discoveryLog.status('DONE', `modified page ${htmlPath}`, { url, path: htmlPath });
+      }
+      crawledPages.set(pageKey(url), htmlPath);
+      addUnresolvedStrings(report, capture.unresolvedStrings);
+      report.pages.push({ url: decodeURI(url), localPath: relativeToRoot(htmlPath, appConfig.downloadRoot) });
+      if (home) {
+        downloadUrls.push(...capture.downloadUrls.filter(link => link.startsWith(home)));
+      } else {
+        downloadUrls.push(...capture.downloadUrls);
+        enqueue(capture.downloadUrls, depth + 1);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      discoveryLog.status('FAIL', `page ${decodeURI(url)}: ${message}`, { url, error: message });
+      report.pages.push({ url: safeDecodeURI(url), error: message });
+    }
+  }
+  if (queue.length) {
+    discoveryLog.warn(`Crawl limit of ${MAX_CRAWL_PAGES} pages reached.`);
+  }
 
-        if (replacedCount > 0) {
-          console.log(`[Patcher] String map replacements applied (${replacedCount})`);
-        }
-      };
+  return { downloadUrls, crawledPages };
+}
 
-      const baseDir = location.pathname.endsWith('/') ? location.pathname : location.pathname.replace(/[^/]+$/, '/');
+/** Decides what happens to a link found on a course page. */
+function classifyLink(url: string, config: PatchConfig, savedPages: Map<string, string>): LinkDecision {
+  if (isStaffUrl(url, config.staffPrefix)) {
+    if (!config.followStaff) return 'staff';
+    if (savedPages.has(pageKey(url))) return 'page';
+    // staff pages stay online unless the crawl opened them
+    return isCrawlablePage(url) ? 'staff' : 'allowed';
+  }
+  try {
+    const u = new URL(url);
+    if (!config.allowedHosts.includes(u.hostname)) return 'external';
 
-      const splitSegments = (pathname: string): string[] =>
-        pathname.replace(/^\/+|\/+$/g, '').split('/').filter(Boolean);
-      const baseParts = splitSegments(baseDir);
+    const pathOk = u.pathname.startsWith(config.sitePath) || u.pathname.startsWith(config.aliasPath);
+    if (!pathOk) return 'external';
 
-      const toRelative = (targetPath: string): string => {
-        const targetParts = splitSegments(targetPath);
-        let i = 0;
-        while (i < baseParts.length && i < targetParts.length && baseParts[i] === targetParts[i]) i++;
-        const up = baseParts.slice(i).map(() => '..');
-        const down = targetParts.slice(i);
-        const rel = [...up, ...down].join('/');
-        return rel || '.';
-      };
+    // crawled pages and index snapshots are already saved; folders can't be saved as files
+    if (savedPages.has(pageKey(url))) return 'page';
+    if (isDirectoryUrl(url)) return 'directory';
 
-      const normalizeUrl = (href: string): URL | null => {
-        let target: URL;
-        try {
-          target = new URL(href, location.href);
-        } catch {
-          return null;
-        }
+    return 'allowed';
+  } catch {
+    return 'external';
+  }
+}
 
-        if (config.forceHostReplacement && target.hostname === config.hostNeedingFix) {
-          target.hostname = config.hostReplacement;
-          target.port = '';
-        }
+/** Asks who to log in as for a course that answered 401; false when the user skips it. */
+async function askCourseCredentials(courseChoice: CourseChoice): Promise<boolean> {
+  discoveryLog.warn(`${courseChoice.label} is password-protected.`, { course: courseChoice.label });
+  const username = (await prompt('User name (empty to skip): ')).trim();
+  if (!username) return false;
+  const password = await promptSecret('Password: ');
+  addAuthRule({ type: challengeFor(courseChoice.href) ?? 'basic', urlPrefix: courseChoice.href, username, password });
+  return true;
+}
 
-        target.hostname = target.hostname.replace(/\.+$/, '');
+/** Opens the course page, patches and saves its index and returns the URLs worth downloading. */
+async function discoverCourse(
+  page: PageSession,
+  courseChoice: CourseChoice,
+  config: PatchConfig,
+  report: CourseReport,
+  canPrompt: boolean
+): Promise<CourseDiscovery | null> {
+  discoveryLog.section(`Navigating to course: ${courseChoice.label}`, { course: courseChoice.label });
+  let status = await page.goto(courseChoice.href);
+  if (status === 401 && canPrompt && (await askCourseCredentials(courseChoice))) {
+    status = await page.goto(courseChoice.href);
+  }
+  const refused = status === 401 || status === 403;
+  if (refused || (await page.evaluate(hasPasswordField))) {
+    const reason = refused ? `HTTP ${status}` : 'login form';
+    discoveryLog.status(
+      'FAIL',
+      `${courseChoice.label} needs a login (${reason}); add credentials under "auth" in ${CONFIG_FILE_NAME}.`,
+      { course: courseChoice.label }
+    );
+    report.skipped = `login required (${reason})`;
+    return null;
+  }
 
-        if (yearExp) {
-          const newPath = target.pathname.replace(
-            yearExp,
-            (_match, p1: string, p2: string) => `${p1}${config.yearPrefix}${config.courseYearDigits}${p2}`
-          );
-          target.pathname = newPath;
-        }
+  const courseDir = localPathFromUrl(courseChoice.href, appConfig.downloadRoot);
+  const alternates = alternateIndexUrls(await page.evaluate(pageLinks), courseChoice.href);
+  // a blocked course shows its folder instead of the index; the backups in it still work
+  const blocked = alternates.length > 0 &&
+    ((await page.evaluate(isDirectoryListing)) || /before_block/i.test(snapshotName(alternates[0])));
+  config.replaceCourseBuilderPaths = blocked;
+  if (blocked) {
+    discoveryLog.info(`Unblocking course ${courseChoice.label} from ${snapshotName(alternates[0])}`, { course: courseChoice.label });
+    report.blocked = true;
+  } else if (config.blockedCoursesOnly) {
+    discoveryLog.status('SKIP', `${courseChoice.label} is not blocked.`, { course: courseChoice.label });
+    report.skipped = 'not blocked';
+    return null;
+  }
 
-        return target;
-      };
+  discoveryLog.debug(
+    `Year rewrite: ${config.applyYearRewrite ? 'enabled' : 'disabled'}; host fix: ${
+    config.forceHostReplacement ? 'enabled' : 'disabled'
+    }`
+  );
 
-      document.querySelectorAll('li').forEach(li => {
-        const a = li.querySelector('a');
-        if (!a) return;
-        if (a.href.includes('javascript:')) return;
-        const fixed = normalizeUrl(a.href);
-        if (!fixed) return;
-        let finalHref = fixed.toString();
-          if (config.replaceCourseBuilderPaths) {
-            finalHref = finalHref.replace(/course_builder/g, 'courses');
-          }
-         urls.push(finalHref);
-         console.log(`[Patcher] ADD ${finalHref}`);
-      });
+  const assets = createAssetCollector(courseChoice.href, courseDir, appConfig.downloadRoot);
+  const htmlPath = pageFilePath(courseChoice.href, appConfig.downloadRoot);
+  const snapshotPages = new Map<string, string>();
+  /** Index file name -> the links found on it, to tell in the report where a file came from. */
+  const snapshotLinks = new Map<string, string[]>();
+  const saveIndex = async (localPath: string, html: string): Promise<void> => {
+    const archived = await saveSnapshot(courseDir, localPath, page.url(), html);
+    if (archived) {
+      discoveryLog.info(`${path.basename(localPath)} changed; previous copy kept as ${archived}`, { path: localPath });
+    }
+  };
 
-      document.querySelectorAll('a[href]').forEach(a => {
-        const rawHref = a.getAttribute('href');
-        if (!rawHref || rawHref.startsWith('javascript:')) return;
+  if (blocked) {
+    // kept for the record; its links are the folder's entries, not course material
+    const blockedPath = path.join(courseDir, BLOCKED_SNAPSHOT_NAME);
+    const capture = await capturePage(page, config, assets.localizerFor(blockedPath));
+    if (capture.serializedHtml && !config.dryRun) {
+      await saveIndex(blockedPath, capture.serializedHtml);
+      snapshotPages.set(`blocked:${courseChoice.href}`, blockedPath);
+    }
+    await page.goto(alternates[0]);
+  }
 
-        const fixed = normalizeUrl(rawHref);
-        if (!fixed) return;
+  const {
+    downloadUrls: primaryUrls,
+    serializedHtml,
+    unresolvedStrings
+  } = await capturePage(page, config, assets.localizerFor(htmlPath));
+  addUnresolvedStrings(report, unresolvedStrings);
+  const outline = serializedHtml
+    ? await page.evaluate(extractCourseOutline, config.staffPrefix).catch(err => {
+      const message = err instanceof Error ? err.message : String(err);
+      discoveryLog.warn(`Could not read the course outline: ${message}`, { course: courseChoice.label });
+      return null;
+    })
+    : null;
+  // the URLs the saved index.html stands for; the backups are saved under their own names
+  const primaryPageUrls = [courseChoice.href, new URL('index.html', courseChoice.href).toString(), page.url()];
+  const indexPageUrls = [...primaryPageUrls, ...alternates];
+  snapshotLinks.set(blocked ? snapshotName(alternates[0]) : 'index.html', primaryUrls);
 
-        if (fixed.href.startsWith(config.staffPrefix)) return;
+  if (serializedHtml) {
+    if (!config.dryRun) {
+      await saveIndex(htmlPath, serializedHtml);
+      discoveryLog.status('DONE', `modified index ${htmlPath}`, { path: htmlPath });
+      if (blocked) {
+        const primaryPath = path.join(courseDir, snapshotName(alternates[0]));
+        await saveIndex(primaryPath, serializedHtml);
+        snapshotPages.set(pageKey(alternates[0]), primaryPath);
+      }
+    }
+    report.pages.push({ url: safeDecodeURI(page.url()), localPath: relativeToRoot(htmlPath, appConfig.downloadRoot) });
+  } else {
+    discoveryLog.warn('index.html not captured.', { course: courseChoice.label });
+    report.pages.push({ url: safeDecodeURI(page.url()), error: 'index.html not captured' });
+  }
 
-        if (fixed.origin === location.origin && fixed.pathname.startsWith('/course_builder/')) {
-          const relPath = toRelative(fixed.pathname);
-          const newHref = relPath + fixed.search + fixed.hash;
-          a.setAttribute('href', newHref);
-        } else {
-          a.setAttribute('href', fixed.toString());
-        }
-      });
+  // every other backup of the index is saved under its own name and its links merged in
+  for (const url of blocked ? alternates.slice(1) : alternates) {
+    const name = snapshotName(url);
+    const localPath = path.join(courseDir, name);
+    try {
+      const status = await page.goto(url);
+      if (status !== null && (status < 200 || status >= 300)) throw new Error(`HTTP ${status}`);
+      const capture = await capturePage(page, config, assets.localizerFor(localPath));
+      addUnresolvedStrings(report, capture.unresolvedStrings);
+      snapshotLinks.set(name, capture.downloadUrls);
+      if (!config.dryRun) {
+        await saveIndex(localPath, capture.serializedHtml);
+        discoveryLog.status('DONE', `index snapshot ${localPath}`, { url, path: localPath });
+      }
+      snapshotPages.set(pageKey(url), localPath);
+      report.pages.push({ url: safeDecodeURI(url), localPath: relativeToRoot(localPath, appConfig.downloadRoot) });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      discoveryLog.status('FAIL', `index snapshot ${safeDecodeURI(url)}: ${message}`, { url, error: message });
+      report.pages.push({ url: safeDecodeURI(url), error: message });
+    }
+  }
+  const indexUrls = [...snapshotLinks.values()].flat();
 
-      const docHtml = '<!DOCTYPE html>\n' + document.documentElement.outerHTML;
-      return { downloadUrls: urls, serializedHtml: docHtml };
-    },
-    config
+  const { downloadUrls, crawledPages } = await crawlSubPages(
+    page, courseChoice, courseDir, indexPageUrls, indexUrls, config, assets, report
   );
 
-  const usableUrls = downloadUrls.filter(url => {
-    if (url.startsWith(STAFF_PREFIX)) return false;
+  const pages = new Map(crawledPages);
+  if (serializedHtml) {
+    primaryPageUrls.forEach(url => pages.set(pageKey(url), htmlPath));
+  }
+  snapshotPages.forEach((localPath, key) => pages.set(key, localPath));
+
+  const rules = rulesForCourse(appConfig.filters, courseChoice.label);
+  const decisions = new Map<string, LinkDecision>();
+  const excludedRules = new Map<string, string>();
+  for (const url of downloadUrls) {
+    const decoded = safeDecodeURI(url);
+    if (decisions.has(decoded)) continue;
+    let decision = classifyLink(url, config, pages);
+    const rule = decision === 'allowed' ? excludedBy(url, rules) : null;
+    if (rule) {
+      decision = 'filtered';
+      excludedRules.set(decoded, rule);
+    }
+    decisions.set(decoded, decision);
+  }
+  const urls = [...decisions].filter(([, decision]) => decision === 'allowed').map(([url]) => url);
+
+  const skipped = [...decisions.values()].filter(d => d === 'staff' || d === 'external' || d === 'directory').length;
+  if (skipped) {
+    discoveryLog.info(`Skipped ${skipped} link(s) (staff-only or external).`);
+  }
+  if (excludedRules.size) {
+    discoveryLog.info(`Excluded ${excludedRules.size} file(s) by filter rules.`);
+  }
+
+  if (!urls.length) {
+    discoveryLog.warn('No downloadable URLs detected for this course.', { course: courseChoice.label });
+  }
+
+  const files: DownloadTarget[] = urls.map(url => ({ url, localPath: linkLocalPath(url, courseDir) }));
+  const pageAssets = assets.targets().filter(asset => !decisions.has(asset.url));
+  if (pageAssets.length) {
+    discoveryLog.info(`Found ${pageAssets.length} page asset(s) (stylesheets, images, scripts).`);
+  }
+  const sources = new Map<string, string[]>();
+  for (const [name, links] of snapshotLinks) {
+    for (const url of new Set(links.map(safeDecodeURI))) sources.set(url, [...(sources.get(url) ?? []), name]);
+  }
+  report.files.push(
+    ...[...decisions].map(([url, decision]): FileReport => ({
+      url,
+      decision,
+      ...(excludedRules.has(url) ? { rule: excludedRules.get(url) } : {}),
+      ...(sources.has(url) ? { snapshots: sources.get(url) } : {})
+    })),
+    ...pageAssets.map((asset): FileReport => ({ url: asset.url, decision: 'asset' }))
+  );
+  report.snapshots = [...snapshotLinks.keys()];
+  return { course: courseChoice, courseDir, files: [...files, ...pageAssets], assets, pages, rules, outline, report };
+}
+
+/**
+ * A course whose pages were saved before the run stopped: only the files it had left,
+ * without opening it again. The saved pages and the outline come from the run state.
+ */
+function resumeCourse(course: CourseChoice, saved: CourseState, report: CourseReport): CourseDiscovery {
+  const left = saved.pending ?? [];
+  const courseDir = localPathFromUrl(course.href, appConfig.downloadRoot);
+  discoveryLog.info(`Resuming ${course.label}: ${left.length} file(s) left.`, { course: course.label });
+  report.files.push(...left.map(({ url, decision }): FileReport => ({ url, decision })));
+  const pages = Object.entries(saved.pages ?? {}).map(([key, relPath]): [string, string] => [
+    key,
+    path.join(appConfig.downloadRoot, ...relPath.split('/'))
+  ]);
+  return {
+    course,
+    courseDir,
+    files: left.map(({ url, localPath }) => ({ url, localPath })),
+    assets: createAssetCollector(course.href, courseDir, appConfig.downloadRoot),
+    pages: new Map(pages),
+    rules: rulesForCourse(appConfig.filters, course.label),
+    outline: saved.outline ?? null,
+    report,
+    resumed: true
+  };
+}
+
+/** Queues every file of a discovered course on the shared pool and records the sync result. */
+async function downloadCourse(discovery: CourseDiscovery, config: PatchConfig, run: RunContext): Promise<void> {
+  const { course, courseDir, files, assets, pages, rules, outline, report } = discovery;
+  const manifest = await loadManifest(courseDir, course.label);
+  const stats = emptySyncStats();
+  const failedUrls = new Set<string>();
+  const seenUrls = files.map(file => file.url);
+  const fileReports = new Map(report.files.map(file => [file.url, file]));
+  const pendingFiles = (targets: DownloadTarget[]): PendingFile[] =>
+    targets.map(({ url, localPath }) => ({ url, localPath, decision: fileReports.get(url)?.decision === 'allowed' ? 'allowed' : 'asset' }));
+  if (!discovery.resumed) {
+    const savedPages = [...pages].map(([key, localPath]) => [key, relativeToRoot(localPath, appConfig.downloadRoot)]);
+    run.state?.discovered(course.href, Object.fromEntries(savedPages), outline);
+  }
+  run.state?.queued(course.href, pendingFiles(files));
+
+  let finished = 0;
+  let lastReport = 0;
+  const transfers = new Map<string, FileTransferProgress>();
+  const reportProgress = (force = false): void => {
+    const now = Date.now();
+    if (!force && now - lastReport < PROGRESS_THROTTLE_MS) return;
+    lastReport = now;
+    config.courseProgressCb?.({
+      courseName: course.label,
+      downloaded: finished,
+      total: seenUrls.length,
+      transfers: [...transfers.values()]
+    });
+  };
+
+  if (files.length) {
+    reportProgress(true);
+    downloadLog.info(`Queued ${files.length} file(s) for ${course.label}...`, { course: course.label });
+  }
+
+  const downloadTarget = async (target: DownloadTarget): Promise<void> => {
+    const { url, localPath } = target;
+    let fileReport = fileReports.get(url);
+    if (!fileReport) {
+      fileReport = { url, decision: 'asset' };
+      fileReports.set(url, fileReport);
+      report.files.push(fileReport);
+    }
+    fileReport.localPath = relativeToRoot(localPath, appConfig.downloadRoot);
+    fileReport.attempts = 1;
+    // only links are size-limited; the pages' own assets are needed to render them
+    const maxSize = fileReport.decision === 'allowed' ? rules.maxSize : undefined;
+    const startedAt = Date.now();
+    let nested: DownloadTarget[] = [];
+    let stopped = false;
     try {
-      const u = new URL(url);
-      if (!ALLOWED_HOSTS.has(u.hostname)) return false;
+      const host = new URL(url).hostname;
+      const result = await withRetry(
+        () => run.pool.run(host, onBytes =>
+          downloadFile(url, localPath, {
+            root: appConfig.downloadRoot,
+            previous: manifest.files[url],
+            maxSize,
+            signal: interruption.signal,
+            onBytes,
+            onProgress: (received, total) => {
+              transfers.set(url, { name: path.basename(localPath), received, total });
+              reportProgress();
+            }
+          })
+        ),
+        {
+          retries: appConfig.retries,
+          baseDelayMs: appConfig.retryDelay,
+          signal: interruption.signal,
+          onRetry: (attempt, delayMs, err) => {
+            fileReport!.attempts = attempt + 1;
+            const message = err instanceof Error ? err.message : String(err);
+            downloadLog.status(
+              'RETRY',
+              `${attempt}/${appConfig.retries} ${url}: ${message} (waiting ${(delayMs / 1000).toFixed(1)}s)`,
+              { url, error: message }
+            );
+          }
+        }
+      );
+      if (isStylesheet(target, result.entry)) {
+        nested = await localizeStylesheet(target, result.entry, assets);
+        run.state?.queued(course.href, pendingFiles(nested));
+      }
+      manifest.files[url] = result.entry;
+      stats[result.status] += 1;
+      Object.assign(fileReport, {
+        status: result.status,
+        size: result.entry.size,
+        contentType: result.entry.contentType,
+        sha256: result.entry.sha256
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (interruption.signal.aborted) {
+        // left pending for --resume; the .part file lets it continue where it stopped
+        stopped = true;
+        downloadLog.debug(`Stopped ${url}: ${message}`, { url });
+        return;
+      }
+      if (err instanceof FileTooLargeError) {
+        downloadLog.status('SKIP', `${url}: ${message}`, { url });
+        fileReport.decision = 'filtered';
+        fileReport.rule = sizeRule(err.maxSize);
+        // saved pages mark the link as not downloaded unless an older copy exists
+        failedUrls.add(url);
+        return;
+      }
+      downloadLog.status('FAIL', `${url}: ${message}`, { url, error: message });
+      stats.failed += 1;
+      failedUrls.add(url);
+      fileReport.status = 'failed';
+      fileReport.error = message;
+    } finally {
+      fileReport.durationMs = Date.now() - startedAt;
+      if (!stopped) run.state?.finished(course.href, url);
+      finished += 1;
+      transfers.delete(url);
+      seenUrls.push(...nested.map(file => file.url));
+      reportProgress(true);
+    }
+    // fonts and images referenced from stylesheets
+    await Promise.all(nested.map(downloadTarget));
+  };
 
-      const pathOk =
-        u.pathname.startsWith('/course_builder/') ||
-        u.pathname.startsWith('/courses/');
-      if (!pathOk) return false;
+  await Promise.all(files.map(downloadTarget));
 
-      return true;
+  const filesByUrl = new Map(files.map(file => [file.url, file.localPath]));
+  // a resumed course only has the files it had left; the manifest knows where the others went
+  if (discovery.resumed) {
+    for (const entry of Object.values(manifest.files)) {
+      if (!filesByUrl.has(entry.url)) filesByUrl.set(entry.url, path.join(appConfig.downloadRoot, ...entry.path.split('/')));
+    }
+  }
+  const missingLinks = await linkSavedPages(Array.from(new Set(pages.values())), courseDir, url => {
+    const pagePath = pages.get(pageKey(url));
+    if (pagePath) return { localPath: pagePath, missing: false };
+    let decoded: string;
+    try {
+      decoded = decodeURI(url);
     } catch {
-      return false;
+      return null;
     }
+    const localPath = filesByUrl.get(decoded);
+    if (!localPath) return null;
+    return { localPath, missing: failedUrls.has(decoded) && !fs.existsSync(localPath) };
   });
+  if (missingLinks) {
+    downloadLog.warn(`${missingLinks} link(s) marked as not downloaded.`, { course: course.label });
+  }
 
-  const skipped = downloadUrls.length - usableUrls.length;
-  if (skipped) {
-    console.log(`[${chalk.cyanBright('CUMATDL')}] Skipped ${skipped} link(s) (staff-only or external).`);
+  if (outline) {
+    const metadata = buildCourseMetadata(outline, course, relativeToRoot(courseDir, appConfig.downloadRoot).split('/')[0], url => {
+      const decoded = safeDecodeURI(url);
+      const pagePath = pages.get(pageKey(url));
+      const filePath = filesByUrl.get(decoded);
+      const localPath = pagePath ?? (filePath && fs.existsSync(filePath) ? filePath : undefined);
+      return {
+        decision: fileReports.get(decoded)?.decision,
+        localPath: localPath && relativeToRoot(localPath, appConfig.downloadRoot)
+      };
+    });
+    await saveCourseMetadata(courseDir, metadata);
   }
 
-  if (serializedHtml) {
-    const htmlDir = localPathFromUrl(courseChoice.href);
-    const htmlPath = path.join(htmlDir, 'index.html');
-    await fs.promises.mkdir(path.dirname(htmlPath), { recursive: true });
-    await fs.promises.writeFile(htmlPath, serializedHtml, 'utf8');
-    console.log(`[${chalk.cyanBright('CUMATDL')}] ${chalk.greenBright("DONE")} modified index ${htmlPath}`);
+  if (!discovery.resumed && !interruption.signal.aborted) stats.removed = markRemoved(manifest, seenUrls);
+  if (seenUrls.length || Object.keys(manifest.files).length) {
+    await saveManifest(courseDir, manifest);
+  }
+  await savePathMap(appConfig.downloadRoot);
+  downloadLog.info(`Sync ${course.label}: ${formatSyncStats(stats)}`, { course: course.label, stats });
+  finishCourseReport(report, stats);
+  if (interruption.signal.aborted) await run.state?.save();
+  else run.state?.courseDone(course.href);
+
+  config.courseProgressCb?.(null); // clear per-course progress line
+}
+
+/** Dry run: asks the server about every file of a discovered course instead of downloading it. */
+async function inventoryCourse(discovery: CourseDiscovery, run: RunContext, year: InventoryYear): Promise<void> {
+  const { course, files, rules, report } = discovery;
+  const links = new Set(report.files.filter(file => file.decision === 'allowed').map(file => file.url));
+  const entry: InventoryCourse = { course: course.label, blocked: report.blocked, files: [], totals: emptyInventoryTotals() };
+  year.courses.push(entry);
+  entry.files = await Promise.all(files.map(async ({ url, localPath }) => {
+    const remote = await withRetry(
+      () => run.pool.run(new URL(url).hostname, () => fetchRemoteInfo(url)),
+      { retries: appConfig.retries, baseDelayMs: appConfig.retryDelay }
+    ).catch((err: unknown) => (err instanceof Error ? err : new Error(String(err))));
+    const maxSize = links.has(url) ? rules.maxSize : undefined;
+    return inventoryFile(url, localPath, relativeToRoot(localPath, appConfig.downloadRoot), remote, maxSize);
+  }));
+  finishInventoryCourse(entry);
+  downloadLog.info(`Inventory ${course.label}: ${formatInventoryTotals(entry.totals)}`, { course: course.label, totals: entry.totals });
+}
+
+/* ---------- per year ---------- */
+
+interface RunContext {
+  options: CliOptions;
+  currentYear: string;
+  canPrompt: boolean;
+  /** Several years are processed; course codes may be missing from some of them. */
+  multiYear: boolean;
+  /** The download was confirmed once and isn't asked again for the next years. */
+  confirmed: boolean;
+  pool: DownloadPool;
+  report: RunReport;
+  /** Set for `--dry-run`: courses are listed here instead of downloaded. */
+  inventory: Inventory | null;
+  /** Progress kept for `--resume`; null for dry runs and watches. */
+  state: RunStateTracker | null;
+}
+
+/** Lists the course folders of a year and picks the ones to process; null when there are none. */
+async function selectYearCourses(page: PageSession, yearChoice: YearChoice, run: RunContext): Promise<CourseSelection | null> {
+  const { options, canPrompt } = run;
+  const normalizedYear = normalizeYear(yearChoice.seg);
+  await page.goto(yearChoice.href);
+
+  const courseDirs = await page.evaluate(listingLinks);
+
+  const courseChoices: CourseChoice[] = courseDirs
+    .filter(item => item.href.endsWith('/'))
+    .map(item => {
+      const seg =
+        segmentFromHref(item.href) ||
+        segmentFromHref(item.raw) ||
+        item.text;
+      return { label: seg, displayLabel: seg, href: item.href };
+    })
+    .filter(item => COURSE_PATTERN.test(item.label));
+
+  if (!courseChoices.length) {
+    log.error('No matching course folders (must start with 4 letters + 4 digits).', { year: yearChoice.seg });
+    return null;
+  }
+
+  const selection = selectionFromOptions(options, courseChoices, run.multiYear);
+  if (selection) {
+    if (!selection.courses.length) {
+      log.info(`No selected course offered in ${normalizedYear}, skipped.`, { year: yearChoice.seg });
+      return null;
+    }
+    const what = selection.blockedOnly ? 'blocked course(s) among' : 'course(s):';
+    log.info(`${selection.courses.length} ${what} ${selection.courses.map(c => c.label).join(', ')}`, { year: yearChoice.seg });
+    if (canPrompt && !run.confirmed && !options.dryRun) {
+      if (!(await confirm(`Download into ${appConfig.downloadRoot}?`))) {
+        log.info('Skipped.', { year: yearChoice.seg });
+        return null;
+      }
+      run.confirmed = true;
+    }
+    return selection;
+  }
+  if (!canPrompt) throw new SelectionError('No course selected; pass --course, --all or --blocked-only.');
+  return chooseCourses(courseChoices);
+}
+
+async function processYear(page: PageSession, yearChoice: YearChoice, run: RunContext): Promise<void> {
+  const { options, currentYear } = run;
+  const normalizedYear = normalizeYear(yearChoice.seg);
+  const hasUnderscore = yearChoice.seg.startsWith('_');
+  const skipYearRewrite = yearChoice.displayLabel === currentYear && !hasUnderscore;
+  const forceHostReplacement = yearChoice.displayLabel === currentYear && !hasUnderscore;
+  const { sitePath, aliasPath } = siteCoursePaths(appConfig.siteRoot);
+
+  log.section(`Opening folder: ${normalizedYear}`, { year: yearChoice.seg });
+  // a resumed year goes on with the courses picked before, without listing the folder again
+  const saved = run.state?.year(yearChoice.seg);
+  let selection: CourseSelection | null;
+  if (saved) {
+    const left = saved.courses.filter(course => !course.done);
+    log.info(`Resuming ${normalizedYear}: ${left.length} of ${saved.courses.length} course(s) left.`, { year: yearChoice.seg });
+    selection = {
+      courses: left.map(course => ({ label: course.course, displayLabel: course.course, href: course.href })),
+      allSelected: saved.selection === 'all',
+      blockedOnly: saved.selection === 'blocked-only'
+    };
   } else {
-    console.log(`[${chalk.cyanBright('CUMATDL')}] ${chalk.red("Warning: index.html not captured.")}`);
+    selection = await selectYearCourses(page, yearChoice, run);
   }
+  if (!selection?.courses.length) return;
 
-  if (!usableUrls.length) {
-    console.log(`[${chalk.cyanBright('CUMATDL')}] ${chalk.yellow("No downloadable URLs detected for this course.")}`);
-    config.missingLogger?.(`[${courseChoice.label}] No downloadable URLs detected`);
-    return;
+  const { courses: selectedCourses, allSelected, blockedOnly } = selection;
+  const courseYear = yearDigits(normalizedYear);
+  const selectionKind = blockedOnly ? 'blocked-only' : allSelected ? 'all' : 'courses';
+  if (!saved) run.state?.startYear(yearChoice, selectionKind, selectedCourses);
+  const yearReport = createYearReport(yearChoice, selectionKind);
+  run.report.years.push(yearReport);
+  const inventoryYear = run.inventory && createInventoryYear(yearChoice.seg);
+  if (inventoryYear) run.inventory!.years.push(inventoryYear);
+  const totalCourses = selectedCourses.length;
+  let completedCourses = 0;
+  const activeCourses = new Map<string, CourseProgressPayload>();
+
+  const updateProgress = (): void => {
+    renderProgress(completedCourses, totalCourses, [...activeCourses.values()], run.pool.stats());
+  };
+  const ticker = setInterval(updateProgress, 1000);
+
+  try {
+    // discovery needs the shared page and runs one course at a time; downloads of
+    // earlier courses keep going on the pool meanwhile
+    const pending: Promise<void>[] = [];
+    for (const course of selectedCourses) {
+      if (interruption.signal.aborted) break;
+      const patchConfig: PatchConfig = {
+        applyYearRewrite: !skipYearRewrite,
+        yearExpSource: yearFixSource(sitePath),
+        yearPrefix: hasUnderscore ? '_' : '',
+        courseYearDigits: courseYear,
+        staffPrefix: appConfig.staffPrefix,
+        followStaff: appConfig.followStaff !== 'none',
+        allowedHosts: appConfig.allowedHosts,
+        forceHostReplacement,
+        hostNeedingFix: appConfig.siteIp,
+        hostReplacement: appConfig.siteHost,
+        sitePath,
+        aliasPath,
+        replaceCourseBuilderPaths: false,
+        blockedCoursesOnly: blockedOnly,
+        dryRun: options.dryRun,
+        stringMap: {},
+        courseProgressCb: payload => {
+          if (payload) activeCourses.set(course.label, payload);
+          else activeCourses.delete(course.label);
+          updateProgress();
+        }
+      };
+      const courseDone = (): void => {
+        completedCourses += 1;
+        updateProgress();
+      };
+      const courseReport = createCourseReport(course);
+      yearReport.courses.push(courseReport);
+      // a failed course stays pending in the run state, which is kept, so --resume tries it again
+      const courseFailed = (err: unknown): void => {
+        const message = err instanceof Error ? err.message : String(err);
+        log.status('FAIL', `${course.label}: ${message}`, { course: course.label, error: message });
+        courseReport.error = message;
+        finishCourseReport(courseReport, courseReport.stats);
+        patchConfig.courseProgressCb?.(null);
+      };
+      const saved = run.state?.course(course.href);
+      let discovery: CourseDiscovery | null;
+      try {
+        discovery = saved?.pending
+          ? resumeCourse(course, saved, courseReport)
+          : await discoverCourse(page, course, patchConfig, courseReport, run.canPrompt);
+      } catch (err) {
+        if (interruption.signal.aborted) throw err;
+        courseFailed(err);
+        courseDone();
+        continue;
+      }
+      if (!discovery) {
+        run.state?.courseDone(course.href);
+        finishCourseReport(courseReport, courseReport.stats);
+        courseDone();
+        continue;
+      }
+      pending.push(
+        (inventoryYear ? inventoryCourse(discovery, run, inventoryYear) : downloadCourse(discovery, patchConfig, run))
+          .catch(courseFailed)
+          .finally(courseDone)
+      );
+    }
+    await Promise.allSettled(pending);
+  } finally {
+    clearInterval(ticker);
+    clearProgressLine();
   }
+}
 
-  config.courseProgressCb?.({ courseName: courseChoice.label, downloaded: 0, total: usableUrls.length });
-  console.log(`[${chalk.cyanBright('CUMATDL')}] Downloading ${usableUrls.length} file(s) for ${courseChoice.label}...`);
+/* ---------- catalogue ---------- */
 
-  for (let i = 0; i < usableUrls.length; i++) {
-    const url = usableUrls[i];
-    const decoded = decodeURI(url);
+/** Rebuilds the course history and the offline catalogue of the whole download root. */
+async function writeIndexPages(report: RunReport, options: CliOptions): Promise<void> {
+  const histories = await scanCourseHistory(appConfig.downloadRoot);
+  if (!histories.length) return;
+  if (report.years.length > 1 && options.courses.length) {
+    const touched = new Set(report.years.flatMap(y => y.courses.map(c => courseCode(c.course))));
+    for (const history of histories.filter(h => touched.has(h.code))) {
+      log.info(formatCourseHistory(history));
+    }
+  }
+  await writeHistoryPage(appConfig.downloadRoot, histories);
+  const cataloguePath = await writeCatalogue(appConfig.downloadRoot, appConfig.reportDir);
+  if (cataloguePath) log.info(`Catalogue saved to: ${cataloguePath}`, { path: cataloguePath });
+}
+
+/* ---------- watch ---------- */
+
+/**
+ * Runs the selection every `watchInterval` minutes until Ctrl+C. Each poll appends to the
+ * changelog; polls that found something notify the hooks and save a report.
+ */
+async function watchSelection(page: PageSession, selectedYears: YearChoice[], base: RunBase): Promise<void> {
+  const notifiers = appConfig.notify.map(createNotifier);
+  const pool = createDownloadPool({ concurrency: appConfig.concurrency, perHostRate: appConfig.perHostRate });
+  for (let poll = 1; !interruption.signal.aborted; poll++) {
+    watchLog.section(`Poll ${poll} at ${new Date().toLocaleString()}`, { poll });
+    const startedAt = new Date().toISOString();
+    // the site being down for a while, a full disk or a broken hook shouldn't end the watch
     try {
-      await downloadFile(decoded);
+      let entry: ChangelogEntry | null = null;
+      const report = await runSelection(page, selectedYears, base, pool, changed => {
+        entry = buildChangelogEntry(changed, poll);
+        return entry.courses.length > 0;
+      });
+      entry ??= buildChangelogEntry(report, poll);
+      const changelogPath = await appendChangelog(appConfig.reportDir, entry);
+      formatChangelogEntry(entry).split('\n').forEach(line => watchLog.info(line));
+      watchLog.info(`Changelog: ${changelogPath}`, { path: changelogPath, poll });
+      if (hasChanges(entry) && notifiers.length) await notifyAll(notifiers, entry);
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
-      const entry = `[${courseChoice.label}] ${decoded} :: ${message}`;
-      console.error(`[${chalk.cyanBright('CUMATDL')}] ${chalk.red("FAIL")} ${decoded}: ${message}`);
-      config.missingLogger?.(entry);
-    } finally {
-      config.courseProgressCb?.({
-        courseName: courseChoice.label,
-        downloaded: i + 1,
-        total: usableUrls.length
+      watchLog.status('FAIL', `poll ${poll}: ${message}`, { poll, error: message });
+      await appendChangelog(appConfig.reportDir, failedChangelogEntry(poll, startedAt, message)).catch((appendErr: unknown) => {
+        const reason = appendErr instanceof Error ? appendErr.message : String(appendErr);
+        watchLog.warn(`Could not write the changelog: ${reason}`, { error: reason });
       });
     }
+    if (interruption.signal.aborted) break;
+    const next = new Date(Date.now() + appConfig.watchInterval * 60_000);
+    watchLog.info(`Next poll at ${next.toLocaleString()}.`, { next: next.toISOString() });
+    await sleep(appConfig.watchInterval * 60_000, interruption.signal);
   }
+}
 
-  config.courseProgressCb?.(null); // clear per-course progress line
+/* ---------- verify ---------- */
+
+/** Local year and course folders picked by `--year`/`--course`; every folder without them. */
+async function selectCourseFolders(options: CliOptions): Promise<CourseFolder[]> {
+  const folders = await scanCourseFolders(appConfig.downloadRoot);
+  const years = Array.from(new Set(folders.map(folder => folder.year)))
+    .map(seg => ({ label: seg, displayLabel: seg.replace(/^_/, ''), href: '', seg }));
+  const pickedYears = options.years.length ? matchYears(options.years, years).map(year => year.seg) : years.map(year => year.seg);
+  const picked: CourseFolder[] = [];
+  for (const year of pickedYears) {
+    const inYear = folders.filter(folder => folder.year === year);
+    if (!options.courses.length) {
+      picked.push(...inYear);
+      continue;
+    }
+    const choices = inYear.map(folder => ({ label: folder.course, displayLabel: folder.course, href: '' }));
+    const matched = new Set(matchCourses(options.courses, choices, pickedYears.length > 1).map(choice => choice.label));
+    picked.push(...inYear.filter(folder => matched.has(folder.course)));
+  }
+  return picked;
+}
+
+/**
+ * Checks every file in the manifests of the selected course folders, optionally against
+ * the server too, and the content of the files no manifest lists. Downloads bad ones again
+ * with `--repair` and saves a verify report.
+ */
+async function verifyDownloads(options: CliOptions): Promise<VerifyReport> {
+  const remote = !options.localOnly;
+  const report = createVerifyReport(appConfig.downloadRoot, remote, options.repair);
+  const folders = await selectCourseFolders(options);
+  if (!folders.length) throw new SelectionError(`No downloaded course under ${appConfig.downloadRoot} matches the selection.`);
+  const pool = createDownloadPool({ concurrency: appConfig.concurrency, perHostRate: appConfig.perHostRate });
+  // each local check opens and hashes a file; a few at a time keeps a large course off EMFILE
+  const disk = createDownloadPool({ concurrency: appConfig.concurrency, perHostRate: 0 });
+  const retry = { retries: appConfig.retries, baseDelayMs: appConfig.retryDelay, signal: interruption.signal };
+
+  for (const folder of folders) {
+    if (interruption.signal.aborted) break;
+    const label = `${folder.year}/${folder.course}`;
+    const course: VerifyCourse = { year: folder.year, course: folder.course, checked: 0, files: [] };
+    report.courses.push(course);
+    const manifest = folder.manifest;
+    const entries = Object.values(manifest?.files ?? {});
+    course.checked = entries.length;
+    setProgressLine(`Verifying ${label} (${entries.length} files)`);
+
+    const checked = await Promise.all(entries.map(async entry => {
+      const file = await disk.run('', () => checkLocalFile(entry, appConfig.downloadRoot));
+      // files no longer linked may be gone from the server for good
+      if (remote && !entry.removedAt) {
+        const info = await withRetry(
+          () => pool.run(new URL(entry.url).hostname, () => fetchRemoteInfo(entry.url)),
+          retry
+        ).catch((err: unknown) => (err instanceof Error ? err : new Error(String(err))));
+        compareRemote(file, entry, info);
+      }
+      return { entry, file };
+    }));
+    clearProgressLine();
+
+    let downloaded = 0;
+    for (const { entry, file } of checked) {
+      if (!file.problems.length && !file.error) continue;
+      course.files.push(file);
+      if (!options.repair || !needsRepair(file)) continue;
+      // the new copy only replaces the old one once it passes the checks itself
+      const localPath = path.join(appConfig.downloadRoot, entry.path);
+      const tmpPath = path.join(path.dirname(localPath), `.repair-${path.basename(localPath)}`);
+      try {
+        const result = await withRetry(
+          () => pool.run(new URL(entry.url).hostname, () =>
+            downloadFile(entry.url, tmpPath, { root: appConfig.downloadRoot, signal: interruption.signal })
+          ),
+          retry
+        );
+        const recheck = await checkLocalFile(result.entry, appConfig.downloadRoot);
+        if (recheck.problems.length) {
+          file.error = `still ${recheck.problems.join(', ')} after downloading again; kept the old copy`;
+        } else {
+          await fs.promises.rename(tmpPath, localPath);
+          manifest!.files[entry.url] = { ...result.entry, path: entry.path, removedAt: entry.removedAt };
+          downloaded += 1;
+          file.repaired = true;
+        }
+      } catch (err) {
+        file.error = err instanceof Error ? err.message : String(err);
+      } finally {
+        for (const leftover of [tmpPath, `${tmpPath}${PART_SUFFIX}`, `${tmpPath}${PART_SUFFIX}.json`]) {
+          await fs.promises.rm(leftover, { force: true });
+        }
+      }
+    }
+    if (downloaded) await saveManifest(folder.dir, manifest!);
+    // files from before manifests existed, or copied in by hand
+    const known = new Set(entries.map(entry => entry.path));
+    const unmanaged = await checkUnmanagedFiles(folder.dir, appConfig.downloadRoot, known);
+    course.checked += unmanaged.checked;
+    course.files.push(...unmanaged.files);
+    course.files.push(...(await findPartialFiles(folder.dir, appConfig.downloadRoot)));
+
+    for (const file of course.files) {
+      const status = file.repaired ? 'REPAIRED' : isBad(file) ? 'FAIL' : 'WARN';
+      const why = [file.problems.join(', '), file.detected && `looks like ${file.detected}`, file.error]
+        .filter(Boolean)
+        .join('; ');
+      verifyLog.status(status, `${file.localPath}: ${why}`, { url: file.url, path: file.localPath, problems: file.problems });
+    }
+    const bad = course.files.filter(isBad).length;
+    verifyLog.info(
+      `Verified ${label}: ${course.checked} files${bad ? `, ${bad} bad` : course.files.length ? ', no bad files' : ', all ok'}`,
+      { year: folder.year, course: folder.course, checked: course.checked, bad }
+    );
+  }
+
+  const reportPath = await saveVerifyReport(report, appConfig.reportDir);
+  verifyLog.info(`Total: ${formatVerifyTotals(report.totals)}`, { totals: report.totals });
+  verifyLog.info(`Verify report saved to: ${reportPath}`, { path: reportPath });
+  return report;
 }
 
 /* ---------- main ---------- */
 
-(async () => {
-  const browser = await puppeteer.launch({
-    headless: true,
-    args: ['--ignore-certificate-errors']
-  });
-  const page = await browser.newPage();
-  page.on('console', msg => {
-    const text = msg.text();
-    if (text.includes('Patcher')) console.log(text);
-  });
+type RunBase = Pick<RunContext, 'options' | 'currentYear' | 'canPrompt' | 'multiYear' | 'state'>;
+
+/**
+ * Goes through the selected years once. The report is saved, even for an aborted run, when
+ * `shouldSave` agrees; dry runs never save one.
+ */
+async function runSelection(
+  page: PageSession,
+  selectedYears: YearChoice[],
+  base: RunBase,
+  pool: DownloadPool,
+  shouldSave: (report: RunReport) => boolean = () => true,
+  inventory: Inventory | null = null
+): Promise<RunReport> {
+  const report = createRunReport(appConfig.siteRoot, appConfig.downloadRoot);
+  // a resumed run was confirmed when it started
+  const run: RunContext = { ...base, confirmed: base.options.resume, pool, report, inventory };
+  try {
+    for (const yearChoice of selectedYears) {
+      if (interruption.signal.aborted) break;
+      await processYear(page, yearChoice, run);
+    }
+    if (interruption.signal.aborted) {
+      report.interrupted = true;
+      if (base.state) {
+        base.state.state.interruptedAt = new Date().toISOString();
+        await base.state.save();
+      }
+    } else if (base.state && report.years.some(year => year.courses.some(course => course.error))) {
+      // the failed courses are still pending; the rest are marked done
+      await base.state.save();
+      log.warn('Some courses failed. Run again with --resume to retry them.');
+    } else {
+      await base.state?.clear();
+    }
+  } finally {
+    clearProgressLine();
+    // logged rather than thrown, so they don't hide the error the run may have stopped with
+    if (!inventory) {
+      try {
+        await savePathMap(appConfig.downloadRoot);
+        if (report.years.length && shouldSave(report)) {
+          const reportPath = await saveRunReport(report, appConfig.reportDir);
+          log.info(`Total: ${formatSyncStats(report.totals)}`, { totals: report.totals });
+          log.info(`Report saved to: ${reportPath}`, { path: reportPath });
+          await writeIndexPages(report, base.options);
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        log.error(`Could not save the run report and catalogue: ${message}`, { error: message });
+      }
+    }
+  }
+  return report;
+}
 
-  await page.goto(PMA_CBROOT, { waitUntil: ['domcontentloaded', 'networkidle0'] });
-
-  const yearDirs = await page.$$eval(
-    'body > table > tbody > tr > td:nth-child(2) > a',
-    anchors =>
-      anchors
-        .map(a => ({
-          text: a.textContent?.trim() ?? '',
-          href: a.href,
-          raw: a.getAttribute('href') ?? ''
-        }))
-        .filter(item => item.href.endsWith('/'))
-  );
+/** Reads the year folders off the site root and picks the years to process; null when there are none. */
+async function selectYears(
+  page: PageSession,
+  options: CliOptions,
+  canPrompt: boolean
+): Promise<{ currentYear: string; selectedYears: YearChoice[] } | null> {
+  await page.goto(appConfig.siteRoot);
+
+  const yearDirs = (await page.evaluate(listingLinks)).filter(item => item.href.endsWith('/'));
 
   let yearChoices: YearChoice[] = yearDirs
     .map(item => {
@@ -516,100 +1235,135 @@ async function processCourse(page: Page, courseChoice: CourseChoice, config: Pat
     })
     .filter(item => YEAR_PATTERN.test(item.seg));
 
-  const currentIdx = yearChoices.findIndex(y => y.displayLabel === CURRENT_YEAR);
+  const currentYear = resolveCurrentYear(appConfig.currentYear, yearChoices);
+  const currentIdx = yearChoices.findIndex(y => y.displayLabel === currentYear);
   if (currentIdx >= 0) {
     const [currentItem] = yearChoices.splice(currentIdx, 1);
     yearChoices.push(currentItem);
   }
 
   if (!yearChoices.length) {
-    console.error(chalk.red('No year folders found.'));
-    await browser.close();
-    clearProgressLine();
-    return;
+    log.error('No year folders found.');
+    return null;
   }
 
-  const yearChoice = await chooseYear(yearChoices);
-  const normalizedYear = normalizeYear(yearChoice.seg);
-  const hasUnderscore = yearChoice.seg.startsWith('_');
-  const skipYearRewrite = yearChoice.displayLabel === CURRENT_YEAR && !hasUnderscore;
-  const forceHostReplacement = yearChoice.displayLabel === CURRENT_YEAR && !hasUnderscore;
-
-  console.log(chalk.bold(`\nOpening folder: ${normalizedYear}`));
-  await page.goto(yearChoice.href, { waitUntil: ['domcontentloaded', 'networkidle0'] });
-
-  const courseDirs = await page.$$eval(
-    'body > table > tbody > tr > td:nth-child(2) > a',
-    anchors =>
-      anchors.map(a => ({
-        href: a.href,
-        raw: a.getAttribute('href') ?? '',
-        text: a.textContent?.trim() ?? ''
-      }))
-  );
-
-  const courseChoices: CourseChoice[] = courseDirs
-    .filter(item => item.href.endsWith('/'))
-    .map(item => {
-      const seg =
-        segmentFromHref(item.href) ||
-        segmentFromHref(item.raw) ||
-        item.text;
-      return { label: seg, displayLabel: seg, href: item.href };
-    })
-    .filter(item => COURSE_PATTERN.test(item.label));
+  let selectedYears: YearChoice[];
+  if (options.years.length) {
+    selectedYears = matchYears(options.years, yearChoices);
+  } else if (options.watch) {
+    selectedYears = yearChoices.filter(y => y.seg === currentYear);
+    if (!selectedYears.length) throw new SelectionError(`No folder for the current year ${currentYear}; pass --year.`);
+  } else if (canPrompt) {
+    selectedYears = await chooseYears(yearChoices);
+  } else {
+    throw new SelectionError('No year selected; pass --year.');
+  }
+  return { currentYear, selectedYears };
+}
 
-  if (!courseChoices.length) {
-    console.error(chalk.red('No matching course folders (must start with 4 letters + 4 digits).'));
-    await browser.close();
-    clearProgressLine();
+(async () => {
+  const options = parseCliArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(HELP_TEXT);
     return;
   }
+  appConfig = loadConfig(options);
+  configureSitePaths(appConfig.siteRoot);
+  const jsonOutput = options.dryRun && options.format === 'json';
+  configureLogging({
+    level: appConfig.logLevel,
+    json: options.json,
+    file: appConfig.logFile,
+    // stdout carries nothing but the inventory or the notifications then
+    stderrOnly: jsonOutput || (options.dryRun && options.json) || (options.watch && appConfig.notify.includes('stdout'))
+  });
+  const interactive = Boolean(process.stdin.isTTY && process.stdout.isTTY);
+  // a watch runs unattended and JSON output is read by scripts, so nothing is asked after the selection
+  const canPrompt = interactive && !options.yes && !options.watch && !options.json;
 
-  const { courses: selectedCourses, allSelected, blockedOnly } = await chooseCourses(courseChoices);
-  const courseYear = yearDigits(normalizedYear);
-  const missingLog: string[] | null = allSelected ? [] : null;
-  const totalCourses = selectedCourses.length;
-  let completedCourses = 0;
+  process.on('SIGINT', () => {
+    if (interruption.signal.aborted) process.exit(130);
+    process.exitCode = 130;
+    clearProgressLine();
+    log.warn('Stopping after cleaning up; press Ctrl+C again to quit at once.');
+    interruption.abort();
+  });
 
-  const updateProgress = (courseProgress?: CourseProgressPayload | null): void => {
-    renderProgress(completedCourses, totalCourses, courseProgress);
-  };
+  for (const rule of appConfig.auth.filter(needsPassword)) {
+    if (!interactive) {
+      throw new ConfigError(`No password for the ${describeAuthRule(rule)}; set "password" or "passwordEnv".`);
+    }
+    rule.password = await promptSecret(`Password for the ${describeAuthRule(rule)}: `);
+  }
+  configureAuth(appConfig.auth, appConfig.siteRoot, [appConfig.siteHost, ...(appConfig.siteIp ? [appConfig.siteIp] : [])]);
 
-  for (const course of selectedCourses) {
-    const patchConfig: PatchConfig = {
-      applyYearRewrite: !skipYearRewrite,
-      yearExpSource: YEAR_FIX_REGEX_SOURCE,
-      yearPrefix: hasUnderscore ? '_' : '',
-      courseYearDigits: courseYear,
-      staffPrefix: STAFF_PREFIX,
-      forceHostReplacement,
-      hostNeedingFix: PMA_IP,
-      hostReplacement: PMA_NAME,
-      replaceCourseBuilderPaths: false,
-      blockedCoursesOnly: blockedOnly,
-      stringMap: STRING_MAP,
-      missingLogger: missingLog ? (msg: string) => missingLog.push(msg) : undefined,
-      courseProgressCb: updateProgress
-    };
-    await processCourse(page, course, patchConfig);
-    completedCourses += 1;
-    updateProgress(null); // clear per-course line, show only overall
+  if (options.verify) {
+    const report = await verifyDownloads(options);
+    if (report.totals.bad) process.exitCode = 1;
+    return;
   }
 
-  if (missingLog && missingLog.length) {
-    const missingPath = path.join(DOWNLOAD_ROOT, normalizedYear, 'missing.txt');
-    await fs.promises.mkdir(path.dirname(missingPath), { recursive: true });
-    await fs.promises.writeFile(missingPath, `${missingLog.join('\n')}\n`, 'utf8');
-    console.log(`[${chalk.cyanBright('CUMATDL')}] Report log saved to: ${missingPath}`);
+  const saved = await loadRunState(appConfig.downloadRoot);
+  if (options.resume) {
+    if (!saved) throw new SelectionError(`No stopped run to resume in ${appConfig.downloadRoot}.`);
+    Object.assign(options, saved.selection);
+  } else if (saved && !options.dryRun && !options.watch) {
+    log.warn(`Starting over; the unfinished run in ${path.join(appConfig.downloadRoot, RUN_STATE_FILE_NAME)} can't be resumed afterwards.`);
   }
 
-  console.log(chalk.bold('\nAll done.'));
-  await browser.close();
-  clearProgressLine();
+  const inventory = options.dryRun ? createInventory(appConfig.downloadRoot) : null;
+  const page = await createSession(appConfig.engine, {
+    retries: appConfig.retries,
+    baseDelayMs: appConfig.retryDelay,
+    signal: interruption.signal
+  });
+  try {
+    const years = options.resume
+      ? { currentYear: saved!.currentYear, selectedYears: saved!.years }
+      : await selectYears(page, options, canPrompt);
+    if (!years) return;
+    const { currentYear, selectedYears } = years;
+    if (options.resume) log.info(`Resuming the run started ${new Date(saved!.startedAt).toLocaleString()}.`);
+
+    const state = options.dryRun || options.watch
+      ? null
+      : trackRunState(appConfig.downloadRoot, options.resume ? saved! : createRunState(currentYear, selectedYears, {
+        courses: options.courses,
+        all: options.all,
+        blockedOnly: options.blockedOnly
+      }));
+    const base: RunBase = { options, currentYear, canPrompt, multiYear: selectedYears.length > 1, state };
+    if (options.watch) {
+      await watchSelection(page, selectedYears, base);
+      return;
+    }
+
+    const pool = createDownloadPool({ concurrency: appConfig.concurrency, perHostRate: appConfig.perHostRate });
+    try {
+      await runSelection(page, selectedYears, base, pool, undefined, inventory);
+    } finally {
+      if (inventory) {
+        finishInventory(inventory);
+        process.stdout.write(jsonOutput ? `${JSON.stringify(inventory, null, 2)}\n` : `\n${formatInventoryTable(inventory)}`);
+      }
+    }
+
+    if (interruption.signal.aborted) {
+      log.warn(state ? 'Stopped. Run again with --resume to continue.' : 'Stopped.');
+    } else {
+      log.section('All done.');
+    }
+  } finally {
+    await page.close();
+  }
 })().catch(err => {
   clearProgressLine();
+  if (err instanceof SelectionError || err instanceof ConfigError) {
+    log.error(err.message);
+    log.error('Run with --help for usage.');
+    process.exit(2);
+  }
   const message = err instanceof Error ? err.stack ?? err.message : String(err);
-  console.error(chalk.red(message));
+  log.error(message);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,223 @@
+import fs from 'fs';
+import { http } from './auth';
+import { sizeRule } from './filters';
+import { formatBytes } from './pool';
+
+export type InventoryFormat = 'table' | 'json';
+
+export const INVENTORY_FORMATS: InventoryFormat[] = ['table', 'json'];
+
+/**
+ * `present`: a local copy of the remote size (or of unknown remote size) exists;
+ * `changed`: a local copy exists but its size differs; `missing`: no local copy;
+ * `excluded`: larger than the `maxSize` filter, so it would be skipped.
+ */
+export type InventoryState = 'present' | 'changed' | 'missing' | 'excluded';
+
+export interface RemoteInfo {
+  status: number;
+  /** Null when the server sends no usable length. */
+  size: number | null;
+  contentType?: string;
+}
+
+export interface InventoryFile {
+  url: string;
+  /** Relative to the download root. */
+  localPath: string;
+  state: InventoryState;
+  size: number | null;
+  localSize?: number;
+  contentType?: string;
+  error?: string;
+  /** Set for `excluded` files. */
+  rule?: string;
+}
+
+export interface InventoryTotals {
+  files: number;
+  /** Sum of the known remote sizes. */
+  bytes: number;
+  unknownSize: number;
+  present: number;
+  /** Files that would be fetched: changed plus missing. */
+  toFetch: number;
+  bytesToFetch: number;
+  excluded: number;
+  errors: number;
+}
+
+export interface InventoryCourse {
+  course: string;
+  blocked: boolean;
+  files: InventoryFile[];
+  totals: InventoryTotals;
+}
+
+export interface InventoryYear {
+  year: string;
+  courses: InventoryCourse[];
+  totals: InventoryTotals;
+}
+
+export interface Inventory {
+  createdAt: string;
+  downloadRoot: string;
+  years: InventoryYear[];
+  totals: InventoryTotals;
+}
+
+export const emptyInventoryTotals = (): InventoryTotals => ({
+  files: 0,
+  bytes: 0,
+  unknownSize: 0,
+  present: 0,
+  toFetch: 0,
+  bytesToFetch: 0,
+  excluded: 0,
+  errors: 0
+});
+
+export const createInventory = (downloadRoot: string): Inventory => ({
+  createdAt: new Date().toISOString(),
+  downloadRoot,
+  years: [],
+  totals: emptyInventoryTotals()
+});
+
+export const createInventoryYear = (year: string): InventoryYear => ({ year, courses: [], totals: emptyInventoryTotals() });
+
+const headerValue = (value: unknown): string | undefined =>
+  typeof value === 'string' && value ? value : undefined;
+
+/**
+ * Size and type of a remote file from a HEAD request. Servers that refuse HEAD get a
+ * one-byte Range GET instead, whose `Content-Range` carries the full size.
+ */
+export async function fetchRemoteInfo(url: string): Promise<RemoteInfo> {
+  const head = await http.head(url, { timeout: 30_000, validateStatus: status => status < 500 });
+  if (head.status !== 405 && head.status !== 501) {
+    const length = Number(headerValue(head.headers['content-length']));
+    return {
+      status: head.status,
+      size: Number.isFinite(length) && length >= 0 && head.status < 300 ? length : null,
+      contentType: headerValue(head.headers['content-type'])
+    };
+  }
+  const response = await http.get(url, {
+    timeout: 30_000,
+    responseType: 'stream',
+    headers: { Range: 'bytes=0-0' },
+    validateStatus: status => status < 500
+  });
+  response.data.destroy();
+  const range = headerValue(response.headers['content-range'])?.match(/\/(\d+)$/);
+  const length = Number(headerValue(response.headers['content-length']));
+  let size: number | null = null;
+  if (range) size = Number(range[1]);
+  else if (response.status === 200 && Number.isFinite(length)) size = length;
+  return { status: response.status, size, contentType: headerValue(response.headers['content-type']) };
+}
+
+/** Compares the remote file with whatever is at `localPath` now; files over `maxSize` are `excluded`. */
+export async function inventoryFile(
+  url: string,
+  localPath: string,
+  relPath: string,
+  remote: RemoteInfo | Error,
+  maxSize?: number
+): Promise<InventoryFile> {
+  let localSize: number | undefined;
+  try {
+    localSize = (await fs.promises.stat(localPath)).size;
+  } catch {
+    // not downloaded yet
+  }
+  const file: InventoryFile = { url, localPath: relPath, state: 'missing', size: null };
+  if (localSize !== undefined) file.localSize = localSize;
+  if (remote instanceof Error) {
+    file.error = remote.message;
+  } else {
+    file.size = remote.size;
+    file.contentType = remote.contentType;
+    if (remote.status >= 400) file.error = `HTTP ${remote.status}`;
+  }
+  if (localSize !== undefined) {
+    file.state = file.size === null || file.size === localSize ? 'present' : 'changed';
+  }
+  if (maxSize !== undefined && file.size !== null && file.size > maxSize) {
+    file.state = 'excluded';
+    file.rule = sizeRule(maxSize);
+  }
+  return file;
+}
+
+function addFile(totals: InventoryTotals, file: InventoryFile): void {
+  totals.files += 1;
+  if (file.size === null) totals.unknownSize += 1;
+  else totals.bytes += file.size;
+  if (file.error) totals.errors += 1;
+  if (file.state === 'present') {
+    totals.present += 1;
+  } else if (file.state === 'excluded') {
+    totals.excluded += 1;
+  } else {
+    totals.toFetch += 1;
+    totals.bytesToFetch += file.size ?? 0;
+  }
+}
+
+function addTotals(into: InventoryTotals, from: InventoryTotals): void {
+  for (const key of Object.keys(into) as (keyof InventoryTotals)[]) into[key] += from[key];
+}
+
+export function finishInventoryCourse(course: InventoryCourse): void {
+  course.totals = emptyInventoryTotals();
+  course.files.forEach(file => addFile(course.totals, file));
+}
+
+/** Recomputes the year and overall totals from the courses. */
+export function finishInventory(inventory: Inventory): void {
+  inventory.totals = emptyInventoryTotals();
+  for (const year of inventory.years) {
+    year.totals = emptyInventoryTotals();
+    year.courses.forEach(course => addTotals(year.totals, course.totals));
+    addTotals(inventory.totals, year.totals);
+  }
+}
+
+/** e.g. `12 files, 340.2 MB (2 of unknown size); 3 present, 9 to fetch (300.1 MB)`. */
+export function formatInventoryTotals(totals: InventoryTotals): string {
+  return `${totals.files} files, ${formatBytes(totals.bytes)}` +
+    (totals.unknownSize ? ` (${totals.unknownSize} of unknown size)` : '') +
+    `; ${totals.present} present, ${totals.toFetch} to fetch (${formatBytes(totals.bytesToFetch)})` +
+    (totals.excluded ? `, ${totals.excluded} excluded` : '') +
+    (totals.errors ? `, ${totals.errors} error(s)` : '');
+}
+
+const pad = (text: string, width: number): string => text + ' '.repeat(Math.max(0, width - text.length));
+
+/** Plain-text table: one row per file, then course, year and overall totals. */
+export function formatInventoryTable(inventory: Inventory): string {
+  const lines: string[] = [];
+  for (const year of inventory.years) {
+    lines.push(`Year ${year.year}`);
+    for (const course of year.courses) {
+      lines.push('', `  ${course.course}${course.blocked ? ' (blocked)' : ''}`);
+      const rows = course.files.map(file => [
+        file.state,
+        file.size === null ? '?' : formatBytes(file.size),
+        (file.contentType ?? '').split(';')[0],
+        file.localPath + (file.error ? `  [${file.error}]` : '') + (file.rule ? `  [${file.rule}]` : '')
+      ]);
+      const widths = [7, 10, 24];
+      for (const row of rows) {
+        lines.push(`    ${row.slice(0, 3).map((cell, i) => pad(cell, widths[i])).join(' ')} ${row[3]}`);
+      }
+      lines.push(`    ${formatInventoryTotals(course.totals)}`);
+    }
+    lines.push('', `  Year ${year.year}: ${formatInventoryTotals(year.totals)}`, '');
+  }
+  lines.push(`Total: ${formatInventoryTotals(inventory.totals)}`);
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,118 @@
+import fs from 'fs';
+import path from 'path';
+import { relativeHref } from './assets';
+
+export const MISSING_STUB_NAME = '_missing.html';
+
+export interface LinkTarget {
+  localPath: string;
+  /** The download failed and there is no earlier copy on disk. */
+  missing: boolean;
+}
+
+/** Anchors the patcher tagged with the URL they download from. */
+const MARKED_ANCHOR = /<a\b[^>]*?\sdata-cumatdl-link="([^"]*)"[^>]*>/gi;
+
+const MISSING_STYLE =
+  '<style>a[data-cumatdl-missing]{color:#b00;text-decoration:line-through wavy}</style>';
+
+const MISSING_STUB = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>File not downloaded</title>
+</head>
+<body>
+<h1>File not downloaded</h1>
+<p>This file could not be downloaded. The original is (or was) at:</p>
+<p><a id="original"></a></p>
+<script>
+  var url = decodeURIComponent(location.hash.slice(1));
+  var link = document.getElementById('original');
+  link.href = url;
+  link.textContent = url;
+</script>
+</body>
+</html>
+`;
+
+const decodeAttribute = (value: string): string =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const escapeAttribute = (value: string): string => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+function setAttribute(tag: string, name: string, value: string): string {
+  const attribute = new RegExp(`\\s${name}="[^"]*"`, 'i');
+  const serialized = ` ${name}="${escapeAttribute(value)}"`;
+  return attribute.test(tag) ? tag.replace(attribute, serialized) : tag.replace(/^<a\b/i, `<a${serialized}`);
+}
+
+/**
+ * Points every tagged anchor of a saved page at the local copy of its target, or at the
+ * missing-file stub when the download failed. Anchors whose target wasn't downloaded keep
+ * the href the patcher gave them.
+ */
+export function rewritePageLinks(
+  html: string,
+  htmlPath: string,
+  stubPath: string,
+  resolve: (url: string) => LinkTarget | null
+): { html: string; missing: number } {
+  let missing = 0;
+  let rewritten = html.replace(MARKED_ANCHOR, (tag, encoded: string) => {
+    let next = tag.replace(/\sdata-cumatdl-link="[^"]*"/i, '');
+    let url: URL;
+    try {
+      url = new URL(decodeAttribute(encoded));
+    } catch {
+      return next;
+    }
+    const hash = url.hash;
+    url.hash = '';
+    const target = resolve(url.toString());
+    if (!target) return next;
+
+    if (target.missing) {
+      missing += 1;
+      next = setAttribute(next, 'href', `${relativeHref(htmlPath, stubPath)}#${encodeURIComponent(url.toString())}`);
+      next = setAttribute(next, 'title', `Not downloaded: ${url.toString()}`);
+      return setAttribute(next, 'data-cumatdl-missing', '');
+    }
+    return setAttribute(next, 'href', `${relativeHref(htmlPath, target.localPath)}${hash}`);
+  });
+
+  if (missing) {
+    rewritten = /<\/head>/i.test(rewritten)
+      ? rewritten.replace(/<\/head>/i, `${MISSING_STYLE}</head>`)
+      : `${MISSING_STYLE}${rewritten}`;
+  }
+  return { html: rewritten, missing };
+}
+
+/** Rewrites the links of every saved page of a course and writes the stub page if needed. */
+export async function linkSavedPages(
+  htmlPaths: string[],
+  courseDir: string,
+  resolve: (url: string) => LinkTarget | null
+): Promise<number> {
+  const stubPath = path.join(courseDir, MISSING_STUB_NAME);
+  let missing = 0;
+  for (const htmlPath of htmlPaths) {
+    let html: string;
+    try {
+      html = await fs.promises.readFile(htmlPath, 'utf8');
+    } catch {
+      continue;
+    }
+    const result = rewritePageLinks(html, htmlPath, stubPath, resolve);
+    if (result.html !== html) await fs.promises.writeFile(htmlPath, result.html, 'utf8');
+    missing += result.missing;
+  }
+  if (missing) await fs.promises.writeFile(stubPath, MISSING_STUB, 'utf8');
+  return missing;
+}
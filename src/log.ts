@@ -0,0 +1,137 @@
+import chalk from 'chalk';
+import fs from 'fs';
+import logUpdate from 'log-update';
+import { stripVTControlCharacters } from 'util';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/** The subsystem an event comes from; `page` is console output of the pages themselves. */
+export type LogTag = 'main' | 'discovery' | 'patcher' | 'page' | 'download' | 'verify' | 'watch';
+
+/** Outcome labels of status lines, e.g. `DONE notes.pdf`. */
+export type LogStatus = 'DONE' | 'UPDATED' | 'SAME' | 'RESUME' | 'SKIP' | 'RETRY' | 'FAIL' | 'REPAIRED' | 'WARN';
+
+/** Extra event properties such as `url` or `course`; they must not reuse the names of `LogEvent`'s own. */
+export type LogFields = Record<string, unknown>;
+
+/** One NDJSON line in `--json` mode and in the log file. */
+export interface LogEvent extends LogFields {
+  time: string;
+  level: LogLevel;
+  tag: LogTag;
+  status?: LogStatus;
+  msg: string;
+}
+
+export interface LogOptions {
+  /** Lowest level shown on the console; the log file always gets everything. */
+  level: LogLevel;
+  /** Print NDJSON events instead of coloured text. */
+  json: boolean;
+  /** Appended to as NDJSON, if set. */
+  file?: string;
+  /** Send everything to stderr, for when stdout carries a result. */
+  stderrOnly: boolean;
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** A line led by an outcome label, such as `DONE` or `FAIL`. */
+  status(status: LogStatus, message: string, fields?: LogFields): void;
+  /** A bold heading with a blank line before it, e.g. when a new course is opened. */
+  section(title: string, fields?: LogFields): void;
+}
+
+const STATUS_STYLE: Record<LogStatus, { level: LogLevel; color: chalk.Chalk }> = {
+  DONE: { level: 'info', color: chalk.greenBright },
+  UPDATED: { level: 'info', color: chalk.yellowBright },
+  SAME: { level: 'info', color: chalk.gray },
+  RESUME: { level: 'info', color: chalk.gray },
+  SKIP: { level: 'info', color: chalk.gray },
+  REPAIRED: { level: 'info', color: chalk.greenBright },
+  RETRY: { level: 'warn', color: chalk.yellow },
+  WARN: { level: 'warn', color: chalk.yellow },
+  FAIL: { level: 'error', color: chalk.red }
+};
+
+const PREFIX: Partial<Record<LogTag, string>> = { patcher: 'Patcher', page: 'Page' };
+
+let options: LogOptions = { level: 'info', json: false, stderrOnly: false };
+let progressLine = '';
+
+export function configureLogging(next: Partial<LogOptions>): void {
+  options = { ...options, ...next };
+}
+
+/** The progress line is drawn only for people watching a terminal. */
+export const progressEnabled = (): boolean =>
+  Boolean(process.stdout.isTTY) && !options.json && !options.stderrOnly && options.level !== 'warn' && options.level !== 'error';
+
+export function setProgressLine(text: string): void {
+  if (!progressEnabled()) return;
+  progressLine = text;
+  if (progressLine) logUpdate(progressLine);
+  else logUpdate.clear();
+}
+
+export function clearProgressLine(): void {
+  if (!progressLine) return;
+  progressLine = '';
+  logUpdate.clear();
+  logUpdate.done();
+}
+
+function humanLine(event: LogEvent, heading: boolean): string {
+  if (heading) return chalk.bold(`\n${event.msg}`);
+  const prefix = `[${chalk.cyanBright(PREFIX[event.tag] ?? 'CUMATDL')}]`;
+  if (event.status) return `${prefix} ${STATUS_STYLE[event.status].color(event.status)} ${event.msg}`;
+  if (event.level === 'warn') return `${prefix} ${chalk.yellow(event.msg)}`;
+  if (event.level === 'error') return `${prefix} ${chalk.red(event.msg)}`;
+  return `${prefix} ${event.msg}`;
+}
+
+function write(event: LogEvent, heading = false): void {
+  const json = `${JSON.stringify(event)}\n`;
+  if (options.file) {
+    try {
+      fs.appendFileSync(options.file, json, 'utf8');
+    } catch {
+      // a full disk or a removed folder shouldn't end the run
+    }
+  }
+  if (LOG_LEVELS.indexOf(event.level) < LOG_LEVELS.indexOf(options.level)) return;
+  // NDJSON stays on one stream so it can be piped as a whole
+  const toStderr = options.stderrOnly || (!options.json && (event.level === 'warn' || event.level === 'error'));
+  const stream = toStderr ? process.stderr : process.stdout;
+  if (progressLine) logUpdate.clear();
+  stream.write(options.json ? json : `${humanLine(event, heading)}\n`);
+  if (progressLine) logUpdate(progressLine);
+}
+
+function emit(tag: LogTag, level: LogLevel, message: string, fields: LogFields = {}, status?: LogStatus, heading = false): void {
+  const event: LogEvent = {
+    time: new Date().toISOString(),
+    level,
+    tag,
+    ...(status && { status }),
+    msg: stripVTControlCharacters(message),
+    ...fields
+  };
+  write(event, heading);
+}
+
+export function createLogger(tag: LogTag): Logger {
+  return {
+    debug: (message, fields) => emit(tag, 'debug', message, fields),
+    info: (message, fields) => emit(tag, 'info', message, fields),
+    warn: (message, fields) => emit(tag, 'warn', message, fields),
+    error: (message, fields) => emit(tag, 'error', message, fields),
+    status: (status, message, fields) => emit(tag, STATUS_STYLE[status].level, message, fields, status),
+    section: (title, fields) => emit(tag, 'info', title, fields, undefined, true)
+  };
+}
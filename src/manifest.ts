@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+
+export const MANIFEST_FILE_NAME = '.cumatdl-manifest.json';
+
+export interface ManifestEntry {
+  url: string;
+  /** Relative to the download root. */
+  path: string;
+  etag?: string;
+  lastModified?: string;
+  contentType?: string;
+  size: number;
+  sha256: string;
+  /** Stylesheets only: the assets they reference, as the server's copy names them. */
+  assets?: string[];
+  /** Set when the local copy was rewritten: what the server sent, for telling whether it changed. */
+  remoteSize?: number;
+  remoteSha256?: string;
+  syncedAt: string;
+  /** Set once the URL no longer appears on the course page; the local copy is kept. */
+  removedAt?: string;
+}
+
+export interface CourseManifest {
+  version: 1;
+  course: string;
+  updatedAt: string;
+  files: Record<string, ManifestEntry>;
+}
+
+export interface SyncStats {
+  new: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+  failed: number;
+}
+
+export const emptySyncStats = (): SyncStats => ({ new: 0, updated: 0, unchanged: 0, removed: 0, failed: 0 });
+
+export async function loadManifest(courseDir: string, course: string): Promise<CourseManifest> {
+  const manifestPath = path.join(courseDir, MANIFEST_FILE_NAME);
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(manifestPath, 'utf8')) as CourseManifest;
+    if (parsed.version === 1 && parsed.files) return parsed;
+  } catch {
+    // missing or corrupt manifest: start over, files are re-validated by hash
+  }
+  return { version: 1, course, updatedAt: new Date().toISOString(), files: {} };
+}
+
+export async function saveManifest(courseDir: string, manifest: CourseManifest): Promise<string> {
+  const manifestPath = path.join(courseDir, MANIFEST_FILE_NAME);
+  manifest.updatedAt = new Date().toISOString();
+  await fs.promises.mkdir(courseDir, { recursive: true });
+  // renamed into place, so a run stopped mid-write can't leave a truncated manifest
+  await fs.promises.writeFile(`${manifestPath}.tmp`, `${JSON.stringify(manifest, null, 2)}\n`, 'utf8');
+  await fs.promises.rename(`${manifestPath}.tmp`, manifestPath);
+  return manifestPath;
+}
+
+/** Flags entries whose URL disappeared from the course page and returns how many were newly removed. */
+export function markRemoved(manifest: CourseManifest, currentUrls: string[]): number {
+  const current = new Set(currentUrls);
+  const now = new Date().toISOString();
+  let removed = 0;
+  for (const entry of Object.values(manifest.files)) {
+    if (current.has(entry.url)) {
+      delete entry.removedAt;
+    } else if (!entry.removedAt) {
+      entry.removedAt = now;
+      removed += 1;
+    }
+  }
+  return removed;
+}
+
+export const formatSyncStats = (stats: SyncStats): string =>
+  `${stats.new} new, ${stats.updated} updated, ${stats.unchanged} unchanged, ${stats.removed} removed` +
+  (stats.failed ? `, ${stats.failed} failed` : '');
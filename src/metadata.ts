@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import { courseCode } from './paths';
+import { LinkDecision } from './report';
+
+export const METADATA_FILE_NAME = 'course.json';
+
+export interface StaffMember {
+  name: string;
+  /** e.g. `Lecturer` or `Tutor`, when the page labels the person. */
+  role?: string;
+  homepage?: string;
+}
+
+export interface OutlineItem {
+  text: string;
+  /** The URL the link downloads from, as tagged by the patcher. */
+  url: string;
+}
+
+export interface OutlineSection {
+  /** Null for links above the first heading. */
+  heading: string | null;
+  items: OutlineItem[];
+}
+
+/** What `extractCourseOutline` reads off a patched course page. */
+export interface CourseOutline {
+  title: string;
+  staff: StaffMember[];
+  announcements: string[];
+  sections: OutlineSection[];
+}
+
+export interface CourseItem extends OutlineItem {
+  /** File extension such as `pdf`, or `page`, `directory` or `link` for everything else. */
+  type: string;
+  /** Relative to the download root; only set when a local copy exists. */
+  localPath?: string;
+}
+
+export interface CourseSection {
+  heading: string | null;
+  items: CourseItem[];
+}
+
+export interface CourseMetadata {
+  version: 1;
+  /** Course folder name, e.g. `MATH1010A`. */
+  course: string;
+  /** Course code shared across years, e.g. `MATH1010`. */
+  code: string;
+  /** Local year folder, e.g. `_2324`. */
+  year: string;
+  url: string;
+  title: string;
+  staff: StaffMember[];
+  announcements: string[];
+  sections: CourseSection[];
+  generatedAt: string;
+}
+
+/**
+ * Runs inside the page after `patchDocument`: reads the title, teaching staff and the
+ * links of the page grouped under the heading they appear below, in page order.
+ */
+export function extractCourseOutline(staffPrefix: string): CourseOutline {
+  const clean = (text: string | null | undefined): string => (text ?? '').replace(/\s+/g, ' ').trim();
+  // a stray `%` in a link is left as it is
+  const fileName = (url: string): string => {
+    const last = url.split('/').pop() ?? '';
+    try {
+      return decodeURIComponent(last);
+    } catch {
+      return last;
+    }
+  };
+
+  const headingSelector = 'h1, h2, h3, h4, h5, h6';
+  // pages without real headings mark their sections in bold or table headers instead
+  const useBold = document.querySelectorAll(headingSelector).length < 2;
+  const isHeading = (el: Element): boolean => {
+    if (/^H[1-6]$/.test(el.tagName)) return Boolean(clean(el.textContent));
+    if (!useBold || el.closest('a') || el.querySelector('a')) return false;
+    const text = clean(el.textContent);
+    return text.length > 0 && text.length <= 80;
+  };
+
+  const h1 = document.querySelector('h1');
+  const title = clean(h1?.textContent) || clean(document.title);
+
+  const staff: StaffMember[] = [];
+  const roleLine = /^(lecturers?|instructors?|teachers?|professors?|tutors?|teaching assistants?|TAs?)\s*[:：]\s*(.+)$/i;
+  // jsdom has no layout and so no innerText; break lines at block elements by hand there
+  let bodyText = document.body.innerText;
+  if (typeof bodyText !== 'string') {
+    const clone = document.body.cloneNode(true) as HTMLElement;
+    clone.querySelectorAll('br, p, div, li, tr, td, th, dt, dd, h1, h2, h3, h4, h5, h6').forEach(el => el.before('\n'));
+    bodyText = clone.textContent ?? '';
+  }
+  for (const line of bodyText.split('\n')) {
+    const match = clean(line).match(roleLine);
+    if (!match) continue;
+    for (const name of match[2].split(/\s*(?:[,;、&]|\band\b)\s*/)) {
+      if (name) staff.push({ name, role: match[1].replace(/s$/i, '') });
+    }
+  }
+  document.querySelectorAll('a[href]').forEach(el => {
+    const a = el as HTMLAnchorElement;
+    if (!a.href.startsWith(staffPrefix)) return;
+    const name = clean(a.textContent);
+    if (!name) return;
+    const known = staff.find(member => member.name === name || member.name.includes(name));
+    if (known) known.homepage = known.homepage ?? a.href;
+    else staff.push({ name, homepage: a.href });
+  });
+
+  const sections: OutlineSection[] = [];
+  const announcements: string[] = [];
+  let current: OutlineSection = { heading: null, items: [] };
+  const selector = `${headingSelector}${useBold ? ', b, strong, th' : ''}, a[data-cumatdl-link], li, p`;
+  document.querySelectorAll(selector).forEach(el => {
+    if (/^(B|STRONG|TH|H[1-6])$/.test(el.tagName)) {
+      if (!isHeading(el)) return;
+      if (current.items.length || current.heading !== null) sections.push(current);
+      current = { heading: clean(el.textContent), items: [] };
+      return;
+    }
+    if (el.tagName === 'A') {
+      const url = el.getAttribute('data-cumatdl-link') ?? '';
+      if (!url || current.items.some(item => item.url === url)) return;
+      const text = clean(el.textContent) || clean(el.getAttribute('title')) || fileName(url);
+      current.items.push({ text, url });
+      return;
+    }
+    if (current.heading && /announce|news|notice|公告|通告/i.test(current.heading)) {
+      const text = clean(el.textContent);
+      if (text && !announcements.includes(text)) announcements.push(text);
+    }
+  });
+  if (current.items.length || current.heading !== null) sections.push(current);
+
+  return { title, staff, announcements, sections: sections.filter(section => section.items.length || section.heading) };
+}
+
+function itemType(url: string, decision: LinkDecision | undefined): string {
+  if (decision === 'page' || decision === 'directory') return decision;
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return 'link';
+  }
+  if (decision !== 'allowed' && /\.s?html?$/i.test(pathname)) return 'page';
+  const ext = path.posix.extname(pathname).slice(1).toLowerCase();
+  return ext || 'link';
+}
+
+/**
+ * Turns an outline into `course.json` content. `lookup` tells, for a link URL, how it was
+ * classified and where its local copy is, relative to the download root.
+ */
+export function buildCourseMetadata(
+  outline: CourseOutline,
+  course: { label: string; href: string },
+  year: string,
+  lookup: (url: string) => { decision?: LinkDecision; localPath?: string }
+): CourseMetadata {
+  return {
+    version: 1,
+    course: course.label,
+    code: courseCode(course.label),
+    year,
+    url: course.href,
+    title: outline.title,
+    staff: outline.staff,
+    announcements: outline.announcements,
+    sections: outline.sections.map(section => ({
+      heading: section.heading,
+      items: section.items.map(item => {
+        const { decision, localPath } = lookup(item.url);
+        return { ...item, type: itemType(item.url, decision), ...(localPath ? { localPath } : {}) };
+      })
+    })),
+    generatedAt: new Date().toISOString()
+  };
+}
+
+export async function saveCourseMetadata(courseDir: string, metadata: CourseMetadata): Promise<string> {
+  const metadataPath = path.join(courseDir, METADATA_FILE_NAME);
+  await fs.promises.mkdir(courseDir, { recursive: true });
+  await fs.promises.writeFile(metadataPath, `${JSON.stringify(metadata, null, 2)}\n`, 'utf8');
+  return metadataPath;
+}
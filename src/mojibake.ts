@@ -0,0 +1,437 @@
+/**
+ * Detects and reverses the encoding corruptions found on course pages: UTF-8 bytes that were
+ * decoded as Big5/CP950 (`蝑�閮�` for `筆記`), UTF-8 decoded as Latin-1/CP1252 (`Ã©` for `é`)
+ * and doubly percent-encoded URLs (`%25E7%25AD%2586`).
+ *
+ * Big5 decoding replaces undecodable bytes with U+FFFD, so what those bytes were has to be
+ * guessed. A guess is only taken when one candidate turns the fragment into valid UTF-8 of
+ * common characters and scores better than every other; otherwise, or when there are too many
+ * readings to search, the fragment is reported as unresolved and the string map has to cover it.
+ */
+
+import iconv from 'iconv-lite';
+
+const REPLACEMENT_CHAR = '�';
+/** Fragments with more undecodable positions than this aren't worth guessing. */
+const MAX_LOST_CHARS = 12;
+
+/** CP1252 characters in 0x80-0x9F, which Latin-1 leaves as C1 controls. */
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+interface Tables {
+  /** Every Big5-HKSCS byte pair a character can come from; HKSCS has duplicates. */
+  big5Bytes: Map<string, number[][]>;
+  /** `lead << 8 | trail` of every pair that decodes to a character. */
+  mappedPairs: Set<number>;
+  /** Big5 level 1 and GB2312 level 1 characters, i.e. the ones people actually write. */
+  common: Set<string>;
+  /** What a repaired string may be made of, by the first byte of its UTF-8 encoding. */
+  likely: Map<number, LikelyChar[]>;
+}
+
+interface LikelyChar {
+  char: string;
+  bytes: number[];
+  score: number;
+}
+
+let tables: Tables | null = null;
+let overrides: [string, string][] = [];
+/** Repairs by input string; page strings and path segments come up again on every page. */
+const repairs = new Map<string, { repaired: string; unresolved: string[] }>();
+const MAX_CACHED_REPAIRS = 10_000;
+
+function loadTables(): Tables {
+  if (tables) return tables;
+  // Node's own big5 decoder turns the HKSCS rows into private use characters
+  const big5 = { decode: (bytes: Uint8Array): string => iconv.decode(Buffer.from(bytes), 'big5hkscs') };
+  const big5Bytes = new Map<string, number[][]>();
+  const mappedPairs = new Set<number>();
+  const common = new Set<string>();
+  for (let lead = 0x81; lead <= 0xfe; lead++) {
+    for (let trail = 0x40; trail <= 0xfe; trail++) {
+      if (trail > 0x7e && trail < 0xa1) continue;
+      const char = big5.decode(Uint8Array.of(lead, trail));
+      if (char.includes(REPLACEMENT_CHAR) || [...char].length !== 1) continue;
+      const pair = (lead << 8) | trail;
+      mappedPairs.add(pair);
+      big5Bytes.set(char, [...(big5Bytes.get(char) ?? []), [lead, trail]]);
+      if ((pair >= 0xa140 && pair <= 0xa3bf) || (pair >= 0xa440 && pair <= 0xc67e)) common.add(char);
+    }
+  }
+  const gbk = new TextDecoder('gbk');
+  for (let lead = 0xa1; lead <= 0xd7; lead++) {
+    // 0xA1-0xA9 rows are punctuation and symbols, 0xB0-0xD7 the level 1 hanzi
+    if (lead > 0xa9 && lead < 0xb0) continue;
+    for (let trail = 0xa1; trail <= 0xfe; trail++) {
+      const char = gbk.decode(Uint8Array.of(lead, trail));
+      if (char.length === 1 && char !== REPLACEMENT_CHAR) common.add(char);
+    }
+  }
+  const likely = new Map<number, LikelyChar[]>();
+  const addLikely = (char: string, score: number): void => {
+    const bytes = [...Buffer.from(char, 'utf8')];
+    likely.set(bytes[0], [...(likely.get(bytes[0]) ?? []), { char, bytes, score }]);
+  };
+  // ASCII, CJK punctuation and full-width forms, then accented letters and general punctuation
+  const cjkRanges = [[0x20, 0x7e], [0x3000, 0x303f], [0xff01, 0xff5e]];
+  const otherRanges = [[0xc0, 0xff], [0x2010, 0x2027], [0x2030, 0x203a]];
+  for (const [ranges, score] of [[cjkRanges, CHAR_SCORE], [otherRanges, OTHER_SCRIPT_SCORE]] as const) {
+    for (const [from, to] of ranges) {
+      for (let cp = from; cp <= to; cp++) addLikely(String.fromCodePoint(cp), cp < 0x7f ? 0 : score);
+    }
+  }
+  const listed = (cp: number): boolean => [...cjkRanges, ...otherRanges].some(([from, to]) => cp >= from && cp <= to);
+  // Big5's own symbol rows (Greek, box drawing, ...) are as unlikely as accented letters
+  common.forEach(char => {
+    const cp = char.codePointAt(0)!;
+    if (!listed(cp)) addLikely(char, cp < 0x2e80 ? OTHER_SCRIPT_SCORE : CHAR_SCORE);
+  });
+  tables = { big5Bytes, mappedPairs, common, likely };
+  return tables;
+}
+
+/** Sets the hand-maintained fixes that take precedence over automatic repair. */
+export function setMojibakeOverrides(map: Record<string, string>): void {
+  // longest first so a fragment of a longer entry doesn't break it up
+  overrides = Object.entries(map).sort((a, b) => b[0].length - a[0].length);
+  repairs.clear();
+}
+
+const applyOverrides = (text: string): string =>
+  overrides.reduce((next, [bad, good]) => (next.includes(bad) ? next.split(bad).join(good) : next), text);
+
+/* ---------- Big5 ---------- */
+
+/**
+ * Words any course site is full of, in traditional and simplified Chinese. A lost byte usually
+ * leaves several common characters that fit equally well (`蝑�` is `筆`, `等` or `策`), and
+ * these words decide between them. Keep it to general course vocabulary: a word added because
+ * one page needed it fits that page and nothing else, and the string map is for that page.
+ */
+const VOCABULARY = [
+  // what course material is called
+  '筆記', '笔记', '講義', '讲义', '課程', '课程', '課堂', '课堂', '課本', '课本', '教材', '作業', '作业',
+  '功課', '功课', '習題', '习题', '練習', '练习', '答案', '解答', '考試', '考试', '測驗', '测验', '小測',
+  '小测', '期中', '期末', '試卷', '试卷', '溫習', '复习', '複習', '大綱', '大纲', '時間表', '时间表',
+  '投影片', '幻燈片', '幻灯片', '報告', '报告', '專題', '专题', '項目', '项目', '實驗', '实验', '閱讀',
+  '阅读', '參考', '参考', '成績', '成绩', '評分', '评分', '範例', '范例', '例題', '例题', '補充', '补充',
+  // who teaches it and how
+  '教學', '教学', '導修', '导修', '講座', '讲座', '助教', '教授', '老師', '老师', '學生', '学生', '同學',
+  '同学', '學期', '学期', '學年', '学年', '上學期', '下學期', '上学期', '下学期',
+  // subjects
+  '數學', '数学', '物理', '化學', '化学', '生物', '統計', '统计', '經濟', '经济', '電腦', '电脑', '計算機',
+  '计算机', '程式', '编程', '英文', '中文', '歷史', '历史', '地理', '微積分', '微积分', '代數', '代数',
+  '幾何', '几何', '概率', '機率', '方程', '函數', '函数',
+  // what a site says about its files
+  '檔案', '档案', '文件', '資料', '资料', '目錄', '目录', '簡介', '简介', '通知', '公告', '更新', '版本',
+  '修訂', '修订', '下載', '下载', '連結', '链接', '上載', '上传', '最新', '附件',
+  // numbering and dates
+  '第', '章', '節', '节', '週', '周', '課', '课', '年', '月', '日', '的',
+  // dates such as `2020年2月` and `3月14日`
+  ...Array.from({ length: 12 }, (_, i) => `年${i + 1}月`),
+  ...Array.from({ length: 31 }, (_, i) => `月${i + 1}日`)
+];
+
+/**
+ * Every recovered character costs a little, so readings that make up extra characters lose;
+ * accented letters and general punctuation cost more than Chinese text.
+ */
+const CHAR_SCORE = -2;
+const OTHER_SCRIPT_SCORE = -3;
+/** Every character of a vocabulary word the candidate ends with adds this much; single characters add 1. */
+const WORD_SCORE = 3;
+/** Candidates kept per position; ties among common characters need room. */
+const BEAM_WIDTH = 32;
+/**
+ * Characters and candidates tried per fragment, over both readings, before it is given up as
+ * unresolved: about a second. Enough for the dates and short words the repair is good at;
+ * long runs of lost bytes would otherwise take seconds and rarely have one winner anyway.
+ */
+const MAX_SEARCH_STEPS = 2_000_000;
+
+const WORDS = new Set(VOCABULARY);
+const WORD_PREFIXES = new Set(VOCABULARY.flatMap(word => [...word].slice(1).map((_, i) => [...word].slice(0, i + 1).join(''))));
+const VOCABULARY_CHARS = new Set(VOCABULARY.flatMap(word => [...word]));
+const MAX_WORD_LENGTH = Math.max(...VOCABULARY.map(word => [...word].length));
+
+/**
+ * Bonus for the vocabulary words `out` now ends with, and for the start of a word it ends
+ * with; the latter only keeps the candidate in the beam until the word is complete.
+ */
+function wordScore(out: string): { score: number; prefix: number } {
+  const chars = [...out.slice(-2 * MAX_WORD_LENGTH)];
+  let score = 0;
+  let prefix = 0;
+  for (let length = 1; length <= Math.min(MAX_WORD_LENGTH, chars.length); length++) {
+    const tail = chars.slice(-length).join('');
+    if (WORDS.has(tail)) score += length > 1 ? WORD_SCORE * length : 1;
+    if (WORD_PREFIXES.has(tail)) prefix = Math.max(prefix, length);
+  }
+  return { score, prefix };
+}
+
+/**
+ * Where a candidate stands in the bytes the fragment was decoded from: in the byte pair of
+ * a known character (`alt` picks one of its encodings) or of a U+FFFD.
+ */
+interface Position {
+  token: number;
+  offset: number;
+  alt: number;
+}
+
+interface Cursor extends Position {
+  /** The first byte of a U+FFFD read as two lost bytes, while the second is still open. */
+  lead: number | null;
+}
+
+interface Candidate {
+  out: string;
+  score: number;
+  /** `score` plus the start of a vocabulary word at the end of `out`; what the beam keeps. */
+  rank: number;
+  lead: number | null;
+}
+
+/**
+ * Reverses one fragment of Big5-decoded UTF-8. Decoders disagree on what a U+FFFD stands
+ * for: Python, Java and iconv drop a single byte that doesn't start a character with the
+ * byte after it, while browsers drop a lead byte together with the non-ASCII byte after it.
+ * Both readings are tried, character by character. Common characters and course vocabulary
+ * rank the candidates, and a repair is only taken when one of them wins outright.
+ */
+function repairBig5Fragment(fragment: string): string | null {
+  const { big5Bytes } = loadTables();
+  const chars = [...fragment];
+  if (chars.filter(char => char === REPLACEMENT_CHAR).length > MAX_LOST_CHARS) return null;
+  // null for a U+FFFD, else the byte pairs the character may have come from
+  const tokens = chars.map(char => {
+    if (char === REPLACEMENT_CHAR) return null;
+    if (char.charCodeAt(0) < 0x80) return [[char.charCodeAt(0)]];
+    return big5Bytes.get(char) ?? [];
+  });
+  if (tokens.some(token => token?.length === 0)) return null;
+  // a decoder reads every U+FFFD the same way, so the two readings are never mixed
+  const budget = { steps: MAX_SEARCH_STEPS };
+  const single = searchBig5(tokens, false, budget);
+  const paired = single && searchBig5(tokens, true, budget);
+  if (!single || !paired) return null;
+  const found = [...single, ...paired].sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = found.filter((candidate, i) => found.findIndex(other => other.out === candidate.out) === i);
+  if (!best || best.out === fragment) return null;
+  if (runnerUp && runnerUp.score === best.score) return null;
+  return best.out;
+}
+
+/**
+ * The best readings of a fragment's bytes, `tokens` holding null for each U+FFFD and the
+ * byte pairs each other character may have come from. `pairs` reads a U+FFFD the way
+ * browsers do: a lead byte and the non-ASCII byte after it, or 0x80 and 0xFF on their own.
+ * Returns null once `budget` runs out.
+ */
+function searchBig5(tokens: (number[][] | null)[], pairs: boolean, budget: { steps: number }): Candidate[] | null {
+  const { mappedPairs, likely } = loadTables();
+
+  const isLead = (byte: number): boolean => byte >= 0x81 && byte <= 0xfe;
+  // a single lost byte can't have formed a character with the known byte after it; browsers
+  // only leave a lead byte on its own before ASCII
+  const loneByteFits = (index: number, byte: number): boolean => {
+    const next = tokens[index + 1];
+    if (pairs && isLead(byte)) return !next || next[0][0] < 0x80;
+    return !next || next.some(alt => !mappedPairs.has((byte << 8) | alt[0]));
+  };
+  const nextToken = (index: number): Cursor => ({ token: index + 1, offset: 0, alt: 0, lead: null });
+  const advance = (cursor: Cursor, byte: number): Cursor[] => {
+    const token = tokens[cursor.token];
+    if (token === undefined) return [];
+    if (token === null) {
+      if (byte < 0x80) return [];
+      if (cursor.lead !== null) return mappedPairs.has((cursor.lead << 8) | byte) ? [] : [nextToken(cursor.token)];
+      const next = loneByteFits(cursor.token, byte) ? [nextToken(cursor.token)] : [];
+      if (pairs && isLead(byte)) next.push({ ...cursor, offset: 1, lead: byte });
+      return next;
+    }
+    const alts = cursor.offset === 0 ? token.map((_, alt) => alt) : [cursor.alt];
+    return alts
+      .filter(alt => token[alt][cursor.offset] === byte)
+      .map(alt => (cursor.offset + 1 === token[alt].length ? nextToken(cursor.token) : { ...cursor, offset: cursor.offset + 1, alt }));
+  };
+  const firstBytes = (pos: Position): number[] => {
+    const token = tokens[pos.token];
+    if (token === null) return [...likely.keys()].filter(byte => byte >= 0x80);
+    return [...new Set(pos.offset === 0 ? token.map(alt => alt[0]) : [token[pos.alt][pos.offset]])];
+  };
+
+  const keyOf = (pos: Position): string => `${pos.token}:${pos.offset}:${pos.alt}`;
+  const states = new Map<string, { pos: Position; paths: Candidate[] }>();
+  const reach = (pos: Position, candidate: Candidate): void => {
+    const key = keyOf(pos);
+    const state = states.get(key) ?? states.set(key, { pos, paths: [] }).get(key)!;
+    const { paths } = state;
+    if (paths.length > BEAM_WIDTH && candidate.rank <= paths[paths.length - 1].rank) return;
+    const same = paths.findIndex(path => path.out === candidate.out && path.lead === candidate.lead);
+    if (same >= 0) {
+      if (paths[same].rank >= candidate.rank) return;
+      paths.splice(same, 1);
+    }
+    const at = paths.findIndex(path => path.rank < candidate.rank);
+    paths.splice(at < 0 ? paths.length : at, 0, candidate);
+    if (paths.length > BEAM_WIDTH + 1) paths.pop();
+  };
+  reach(nextToken(-1), { out: '', score: 0, rank: 0, lead: null });
+
+  // positions only move forward, so token by token and offset by offset is a valid order
+  for (let token = 0; token < tokens.length; token++) {
+    for (let offset = 0; offset < 2; offset++) {
+      for (const [key, { pos, paths }] of [...states].filter(([, state]) => state.pos.token === token && state.pos.offset === offset)) {
+        states.delete(key);
+        const leads = [...new Set(paths.map(path => path.lead))];
+        for (const lead of leads) {
+          const from = paths.filter(path => path.lead === lead);
+          for (const first of firstBytes(pos)) {
+            if (!advance({ ...pos, lead }, first).length) continue;
+            for (const { char, bytes, score } of likely.get(first) ?? []) {
+              if (--budget.steps < 0) return null;
+              let ends = [{ ...pos, lead }];
+              for (const byte of bytes) ends = ends.flatMap(end => advance(end, byte));
+              for (const end of ends) {
+                for (const path of from) {
+                  if (--budget.steps < 0) return null;
+                  const out = path.out + char;
+                  const words = VOCABULARY_CHARS.has(char) ? wordScore(out) : { score: 0, prefix: 0 };
+                  const total = path.score + score + words.score;
+                  reach(end, { out, score: total, rank: total + words.prefix, lead: end.lead });
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return states.get(keyOf(nextToken(tokens.length - 1)))?.paths ?? [];
+}
+
+/**
+ * Runs of characters that can be Big5 mojibake: U+FFFD and characters Big5 can encode. Letters
+ * and digits stay in the run, as dates like `2020撟�2���` need them to be read.
+ */
+function big5Fragments(text: string): string[] {
+  const { big5Bytes } = loadTables();
+  const fragments: string[] = [];
+  let current = '';
+  for (const char of text) {
+    if (char === REPLACEMENT_CHAR || /^[0-9A-Za-z]$/.test(char) || (char.charCodeAt(0) >= 0x80 && big5Bytes.has(char))) {
+      current += char;
+    } else {
+      if (current) fragments.push(current);
+      current = '';
+    }
+  }
+  if (current) fragments.push(current);
+  return fragments;
+}
+
+/* ---------- Latin-1 / CP1252 ---------- */
+
+function latin1Byte(char: string): number | null {
+  const code = char.charCodeAt(0);
+  if (code >= 0xa0 && code <= 0xff) return code;
+  const high = CP1252_HIGH.indexOf(char);
+  return high >= 0 ? 0x80 + high : null;
+}
+
+/** `Ã©` back to `é`: a run of Latin-1 characters whose bytes are valid UTF-8. */
+function repairLatin1(text: string): string {
+  return text.replace(/[\u00a0-\u00ff€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ]{2,}/g, run => {
+    const bytes = [...run].map(latin1Byte);
+    if (bytes.some(b => b === null)) return run;
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(bytes as number[]));
+    } catch {
+      return run;
+    }
+  });
+}
+
+/* ---------- percent-encoding ---------- */
+
+/** `%25E7%25AD%2586` back to `%E7%AD%86`, but only where the result is percent-encoded UTF-8. */
+function repairDoubleEncoding(text: string): string {
+  return text.replace(/(?:%25[0-9a-f]{2})+/gi, run => {
+    const single = run.replace(/%25/gi, '%');
+    if (!/%[89a-f]/i.test(single)) return run;
+    try {
+      decodeURIComponent(single);
+      return single;
+    } catch {
+      return run;
+    }
+  });
+}
+
+/** Percent-encoded mojibake, e.g. the UTF-8 escapes of `蝑�閮�`, repaired and re-encoded. */
+function repairEncodedRuns(text: string, unresolved: Set<string>): string {
+  return text.replace(/(?:%[89a-f][0-9a-f])+/gi, run => {
+    let decoded: string;
+    try {
+      decoded = decodeURIComponent(run);
+    } catch {
+      return run;
+    }
+    const repaired = repairPlainText(decoded, unresolved);
+    return repaired === decoded ? run : encodeURIComponent(repaired);
+  });
+}
+
+/* ---------- entry points ---------- */
+
+function repairPlainText(text: string, unresolved: Set<string>): string {
+  const { common } = loadTables();
+  let next = repairLatin1(text);
+  for (const fragment of big5Fragments(next)) {
+    const suspicious =
+      fragment.includes(REPLACEMENT_CHAR) || [...fragment].some(char => char.charCodeAt(0) >= 0x80 && !common.has(char));
+    if (!suspicious) continue;
+    const repaired = repairBig5Fragment(fragment);
+    if (repaired) next = next.split(fragment).join(repaired);
+    else if (fragment.includes(REPLACEMENT_CHAR)) unresolved.add(fragment);
+  }
+  return next;
+}
+
+/**
+ * Repairs a page string, link target or file name. The string map overrides are applied
+ * first; fragments that still contain U+FFFD afterwards are added to `unresolved`.
+ */
+export function repairMojibake(text: string, unresolved: Set<string> = new Set()): string {
+  // eslint-disable-next-line no-control-regex
+  if (!/[^\x00-\x7f]|%[0-9a-f]{2}/i.test(text)) return text;
+  let cached = repairs.get(text);
+  if (!cached) {
+    const found = new Set<string>();
+    let next = applyOverrides(text);
+    if (/%[0-9a-f]{2}/i.test(next)) next = repairEncodedRuns(repairDoubleEncoding(next), found);
+    cached = { repaired: repairPlainText(next, found), unresolved: Array.from(found) };
+    if (repairs.size >= MAX_CACHED_REPAIRS) repairs.clear();
+    repairs.set(text, cached);
+  }
+  cached.unresolved.forEach(fragment => unresolved.add(fragment));
+  return cached.repaired;
+}
+
+/**
+ * Builds the fragment replacements for a page's strings, overrides first, for the patcher's
+ * string map. Also returns the fragments nothing could repair.
+ */
+export function scanMojibake(strings: string[]): { replacements: Record<string, string>; unresolved: string[] } {
+  const replacements: Record<string, string> = Object.fromEntries(overrides);
+  const unresolved = new Set<string>();
+  for (const text of new Set(strings)) {
+    const repaired = repairMojibake(text, unresolved);
+    if (repaired !== applyOverrides(text)) replacements[applyOverrides(text)] = repaired;
+  }
+  return { replacements, unresolved: Array.from(unresolved) };
+}
@@ -0,0 +1,257 @@
+/* eslint-disable no-console */
+import { scanMojibake } from './mojibake';
+import { PageSession } from './session';
+import { PatchConfig } from './types';
+
+export interface PageCapture {
+  downloadUrls: string[];
+  /** Absolute URLs of stylesheets, icons, images and scripts the page needs to render. */
+  assetUrls: string[];
+  serializedHtml: string;
+  /** Garbled fragments neither the string map nor the automatic repair could fix. */
+  unresolvedStrings: string[];
+}
+
+/** Maps asset URLs to hrefs relative to the saved page; unmapped assets keep their absolute URL. */
+export type AssetLocalizer = (assetUrls: string[]) => Record<string, string>;
+
+/** First pass in the browser: the text and link targets that may need a mojibake repair. */
+function collectPageStrings(): string[] {
+  const strings = new Set<string>();
+  const add = (value: string | null): void => {
+    // eslint-disable-next-line no-control-regex
+    if (value && /[^\x00-\x7f]|%/.test(value)) strings.add(value);
+  };
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) add(walker.currentNode.nodeValue);
+  document.querySelectorAll('[href]').forEach(el => add(el.getAttribute('href')));
+  return Array.from(strings);
+}
+
+/**
+ * Runs inside the browser: repairs garbled strings, fixes hosts and years, collects the
+ * download links and makes same-site links relative. Page assets are tagged with their
+ * absolute URL for `localizeDocument`.
+ */
+function patchDocument(config: PatchConfig): Pick<PageCapture, 'downloadUrls' | 'assetUrls'> {
+  const yearExp = config.applyYearRewrite ? new RegExp(config.yearExpSource, 'i') : null;
+  const urls: string[] = [];
+  const toAlias = (href: string): string => {
+    if (!config.replaceCourseBuilderPaths) return href;
+    const target = new URL(href);
+    if (target.pathname.startsWith(config.sitePath)) {
+      target.pathname = config.aliasPath + target.pathname.slice(config.sitePath.length);
+    }
+    return target.toString();
+  };
+
+  const replacements = Object.entries(config.stringMap ?? {});
+  if (replacements.length) {
+    let replacedCount = 0;
+    const applyReplacements = (text: string | null): string => {
+      if (!text) return '';
+      let next = text;
+      for (const [bad, good] of replacements) {
+        if (next.includes(bad)) {
+          const updated = next.split(bad).join(good);
+          if (updated !== next) {
+            replacedCount += 1;
+            next = updated;
+          }
+        }
+      }
+      return next;
+    };
+
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+    const textNodes: Node[] = [];
+    while (walker.nextNode()) textNodes.push(walker.currentNode!);
+    textNodes.forEach(node => {
+      node.nodeValue = applyReplacements(node.nodeValue);
+    });
+
+    document.querySelectorAll('[href]').forEach(el => {
+      const value = el.getAttribute('href');
+      const next = applyReplacements(value);
+      if (next !== value) {
+        el.setAttribute('href', next);
+        console.debug(`[Patcher] [REPLACE] {${value}} -> {${next}}`);
+      }
+    });
+
+    if (replacedCount > 0) {
+      console.log(`[Patcher] String map replacements applied (${replacedCount})`);
+    }
+  };
+
+  const baseDir = location.pathname.endsWith('/') ? location.pathname : location.pathname.replace(/[^/]+$/, '/');
+
+  const splitSegments = (pathname: string): string[] =>
+    pathname.replace(/^\/+|\/+$/g, '').split('/').filter(Boolean);
+  const baseParts = splitSegments(baseDir);
+
+  const toRelative = (targetPath: string): string => {
+    const targetParts = splitSegments(targetPath);
+    let i = 0;
+    while (i < baseParts.length && i < targetParts.length && baseParts[i] === targetParts[i]) i++;
+    const up = baseParts.slice(i).map(() => '..');
+    const down = targetParts.slice(i);
+    const rel = [...up, ...down].join('/');
+    return rel || '.';
+  };
+
+  const normalizeUrl = (href: string): URL | null => {
+    let target: URL;
+    try {
+      target = new URL(href, location.href);
+    } catch {
+      return null;
+    }
+
+    if (config.forceHostReplacement && target.hostname === config.hostNeedingFix) {
+      target.hostname = config.hostReplacement;
+      target.port = '';
+    }
+
+    target.hostname = target.hostname.replace(/\.+$/, '');
+
+    if (yearExp) {
+      const newPath = target.pathname.replace(
+        yearExp,
+        (_match, p1: string, p2: string) => `${p1}${config.yearPrefix}${config.courseYearDigits}${p2}`
+      );
+      target.pathname = newPath;
+    }
+
+    return target;
+  };
+
+  const addUrl = (href: string): void => {
+    const fixed = normalizeUrl(href);
+    if (!fixed) return;
+    const finalHref = toAlias(fixed.toString());
+    urls.push(finalHref);
+    console.debug(`[Patcher] ADD ${finalHref}`);
+  };
+
+  document.querySelectorAll('li').forEach(li => {
+    const a = li.querySelector('a');
+    if (!a) return;
+    if (a.href.includes('javascript:')) return;
+    addUrl(a.href);
+  });
+
+  // Apache directory listings keep their entries in a table or <pre> instead of <li>
+  if (/^Index of \//.test(document.title)) {
+    document.querySelectorAll('td a[href], pre a[href]').forEach(a => {
+      const rawHref = a.getAttribute('href') ?? '';
+      if (!rawHref || rawHref.startsWith('?') || (a.textContent ?? '').trim() === 'Parent Directory') return;
+      addUrl(rawHref);
+    });
+  }
+
+  document.querySelectorAll('a[href]').forEach(a => {
+    const rawHref = a.getAttribute('href');
+    if (!rawHref || rawHref.startsWith('javascript:')) return;
+
+    const fixed = normalizeUrl(rawHref);
+    if (!fixed) return;
+
+    if (fixed.href.startsWith(config.staffPrefix)) {
+      if (!config.followStaff) return;
+      // staff links outside a list still count as links of the page
+      if (!urls.includes(fixed.toString())) addUrl(rawHref);
+    }
+
+    // the URL this link downloads from, so the saved copy can point at the local file later
+    a.setAttribute('data-cumatdl-link', toAlias(fixed.toString()));
+
+    if (fixed.origin === location.origin && fixed.pathname.startsWith(config.sitePath)) {
+      const relPath = toRelative(fixed.pathname);
+      const newHref = relPath + fixed.search + fixed.hash;
+      a.setAttribute('href', newHref);
+    } else {
+      a.setAttribute('href', fixed.toString());
+    }
+  });
+
+  const assetUrls = new Set<string>();
+  const toAssetUrl = (raw: string): string | null => {
+    if (!raw || raw.startsWith('#') || /^(data|javascript|mailto|about):/i.test(raw)) return null;
+    const fixed = normalizeUrl(raw);
+    if (!fixed || !/^https?:$/.test(fixed.protocol)) return null;
+    fixed.hash = '';
+    const assetHref = toAlias(fixed.toString());
+    assetUrls.add(assetHref);
+    return assetHref;
+  };
+
+  const assetAttributes: [string, string][] = [['link[href]', 'href'], ['img[src]', 'src'], ['script[src]', 'src']];
+  for (const [selector, attr] of assetAttributes) {
+    document.querySelectorAll(selector).forEach(el => {
+      if (el.tagName === 'LINK' && !/stylesheet|icon|preload/i.test(el.getAttribute('rel') ?? '')) return;
+      const assetHref = toAssetUrl(el.getAttribute(attr) ?? '');
+      if (assetHref) el.setAttribute(`data-cumatdl-${attr}`, assetHref);
+    });
+  }
+
+  // inline CSS gets absolute url()s here and local ones in localizeDocument
+  const absolutizeCss = (css: string): string =>
+    css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/gi, (match, quote: string, raw: string) => {
+      const assetHref = toAssetUrl(raw.trim());
+      return assetHref ? `url(${quote}${assetHref}${quote})` : match;
+    });
+  document.querySelectorAll('style').forEach(style => {
+    style.textContent = absolutizeCss(style.textContent ?? '');
+  });
+  document.querySelectorAll('[style]').forEach(el => {
+    el.setAttribute('style', absolutizeCss(el.getAttribute('style') ?? ''));
+  });
+
+  return { downloadUrls: urls, assetUrls: Array.from(assetUrls) };
+}
+
+/** Second pass in the browser: points tagged assets at their local copies and serializes the page. */
+function localizeDocument(localHrefs: Record<string, string>): string {
+  for (const attr of ['href', 'src']) {
+    document.querySelectorAll(`[data-cumatdl-${attr}]`).forEach(el => {
+      const assetHref = el.getAttribute(`data-cumatdl-${attr}`) ?? '';
+      el.removeAttribute(`data-cumatdl-${attr}`);
+      if (localHrefs[assetHref]) el.setAttribute(attr, localHrefs[assetHref]);
+    });
+  }
+
+  const localizeCss = (css: string): string =>
+    css.replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/gi, (match, quote: string, href: string) =>
+      localHrefs[href] ? `url(${quote}${localHrefs[href]}${quote})` : match
+    );
+  document.querySelectorAll('style').forEach(style => {
+    style.textContent = localizeCss(style.textContent ?? '');
+  });
+  document.querySelectorAll('[style]').forEach(el => {
+    el.setAttribute('style', localizeCss(el.getAttribute('style') ?? ''));
+  });
+
+  return '<!DOCTYPE html>\n' + document.documentElement.outerHTML;
+}
+
+/**
+ * Patches the page currently open in `page` and returns its links and serialized HTML.
+ * Works the same with either engine: every pass runs inside the page.
+ * The page's strings are checked for mojibake first and the repairs handed to the patcher
+ * as its string map. `localizeAssets` decides where the page's assets are stored before
+ * the HTML is serialized.
+ */
+export async function capturePage(
+  page: PageSession,
+  config: PatchConfig,
+  localizeAssets?: AssetLocalizer
+): Promise<PageCapture> {
+  const strings = (await page.evaluate(collectPageStrings)) ?? [];
+  const { replacements, unresolved } = scanMojibake(strings);
+  const patchConfig: PatchConfig = { ...config, stringMap: replacements };
+  const { downloadUrls = [], assetUrls = [] } = await page.evaluate(patchDocument, patchConfig);
+  const localHrefs = localizeAssets ? localizeAssets(assetUrls) : {};
+  const serializedHtml = (await page.evaluate(localizeDocument, localHrefs)) ?? '';
+  return { downloadUrls, assetUrls, serializedHtml, unresolvedStrings: unresolved };
+}
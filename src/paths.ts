@@ -0,0 +1,216 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { repairMojibake } from './mojibake';
+
+/** Course folders start with four letters and four digits, e.g. `MATH1010` or `MATH1010A`. */
+export const COURSE_PATTERN = /^[A-Za-z]{4}\d{4}.*$/;
+/** Year folders are four digits, archived ones prefixed with `_`, e.g. `2425` or `_2324`. */
+export const YEAR_PATTERN = /^_?\d{4}$/;
+
+export const PATH_MAP_FILE_NAME = '.cumatdl-paths.json';
+
+export const DEFAULT_SITE_ROOT = 'https://www.math.cuhk.edu.hk/course_builder/';
+
+/* ---------- sanitising ---------- */
+
+const UNSAFE_CHARS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])(\..*)?$/i;
+/** Most file systems cap a name at 255 bytes; leave room for `.part` and collision suffixes. */
+const MAX_SEGMENT_BYTES = 200;
+
+const shortHash = (text: string): string => crypto.createHash('sha1').update(text).digest('hex').slice(0, 8);
+
+/** Inserts `~suffix` before the extension, e.g. `notes~1a2b3c4d.pdf`. */
+function withSuffix(name: string, suffix: string): string {
+  const ext = path.posix.extname(name);
+  return `${name.slice(0, name.length - ext.length)}~${suffix}${ext}`;
+}
+
+/**
+ * Turns one decoded URL segment into a name every platform accepts: no separators or
+ * characters Windows rejects, no trailing dots or spaces, no device names, no `.`/`..`.
+ */
+export function safeSegment(segment: string): string {
+  let name = segment.normalize('NFC').replace(UNSAFE_CHARS, '_').replace(/[. ]+$/, '');
+  if (!name || /^\.+$/.test(name)) name = '_'.repeat(Math.max(segment.length, 1));
+  if (RESERVED_NAMES.test(name)) name = `_${name}`;
+  if (Buffer.byteLength(name) > MAX_SEGMENT_BYTES) {
+    const ext = path.posix.extname(name).slice(0, 16);
+    let stem = name.slice(0, name.length - path.posix.extname(name).length);
+    while (Buffer.byteLength(stem) + ext.length + 9 > MAX_SEGMENT_BYTES) stem = Array.from(stem).slice(0, -1).join('');
+    name = withSuffix(stem + ext, shortHash(segment));
+  }
+  return name;
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return repairMojibake(decodeURIComponent(segment));
+  } catch {
+    return segment;
+  }
+}
+
+/** Throws unless `target` lies inside `root`; the last line of defence for every write. */
+export function assertInside(root: string, target: string): string {
+  const resolved = path.resolve(target);
+  const base = path.resolve(root);
+  if (resolved !== base && !resolved.startsWith(base + path.sep)) {
+    throw new Error(`Refusing to write outside the download root: ${target}`);
+  }
+  return resolved;
+}
+
+/* ---------- path map ---------- */
+
+interface PathMapFile {
+  version: 1;
+  /** URL key -> path relative to the download root. */
+  paths: Record<string, string>;
+}
+
+interface PathMap {
+  paths: Map<string, string>;
+  /** Case-folded relative path -> the URL key that owns it. */
+  owners: Map<string, string>;
+  dirty: boolean;
+  /** The last save; courses finish in parallel, so saves queue up behind it. */
+  saving: Promise<void>;
+}
+
+const pathMaps = new Map<string, PathMap>();
+
+const foldCase = (relPath: string): string => relPath.normalize('NFC').toLowerCase();
+
+function pathMapFor(root: string): PathMap {
+  const key = path.resolve(root);
+  let map = pathMaps.get(key);
+  if (map) return map;
+  map = { paths: new Map(), owners: new Map(), dirty: false, saving: Promise.resolve() };
+  try {
+    const parsed = JSON.parse(fs.readFileSync(path.join(key, PATH_MAP_FILE_NAME), 'utf8')) as PathMapFile;
+    for (const [url, relPath] of Object.entries(parsed.paths ?? {})) {
+      map.paths.set(url, relPath);
+      map.owners.set(foldCase(relPath), url);
+    }
+  } catch {
+    // no map yet: paths are assigned as URLs come in
+  }
+  pathMaps.set(key, map);
+  return map;
+}
+
+/**
+ * Local path for `key`, built from `segments` under `baseDir`. A key keeps the path it was
+ * first given, so saved pages keep linking to the same files across runs; a later key whose
+ * path differs only by case (or by sanitising) gets a suffix derived from the key instead.
+ */
+function mapPath(root: string, key: string, baseDir: string, segments: string[]): string {
+  const map = pathMapFor(root);
+  const known = map.paths.get(key);
+  if (known !== undefined) return assertInside(root, path.join(root, ...known.split('/')));
+
+  const safe = segments.map(safeSegment);
+  let localPath = assertInside(root, path.join(baseDir, ...safe));
+  let relPath = relativeToRoot(localPath, root);
+  const owner = map.owners.get(foldCase(relPath));
+  if (owner !== undefined && owner !== key && safe.length) {
+    safe[safe.length - 1] = withSuffix(safe[safe.length - 1], shortHash(key));
+    localPath = assertInside(root, path.join(baseDir, ...safe));
+    relPath = relativeToRoot(localPath, root);
+  }
+  map.paths.set(key, relPath);
+  map.owners.set(foldCase(relPath), key);
+  map.dirty = true;
+  return localPath;
+}
+
+/** Writes `<root>/.cumatdl-paths.json` if any URL was assigned a path since the last save. */
+export function savePathMap(root: string): Promise<void> {
+  const map = pathMaps.get(path.resolve(root));
+  if (!map?.dirty) return map?.saving ?? Promise.resolve();
+  // paths assigned while this one is written mark the map dirty again for the next save
+  const file: PathMapFile = { version: 1, paths: Object.fromEntries([...map.paths].sort(([a], [b]) => a.localeCompare(b))) };
+  map.dirty = false;
+  const filePath = path.join(root, PATH_MAP_FILE_NAME);
+  const tmpPath = `${filePath}.tmp`;
+  map.saving = map.saving
+    .catch(() => {})
+    .then(async () => {
+      await fs.promises.mkdir(root, { recursive: true });
+      await fs.promises.writeFile(tmpPath, `${JSON.stringify(file, null, 2)}\n`, 'utf8');
+      await fs.promises.rename(tmpPath, filePath);
+    })
+    .catch(err => {
+      map.dirty = true;
+      throw err;
+    });
+  return map.saving;
+}
+
+/* ---------- URL mapping ---------- */
+
+/** The site also serves its root folder under this name, and blocked courses link there. */
+const ALIAS_FOLDER = 'courses';
+
+export interface SitePaths {
+  /** Path of the site root, e.g. `/course_builder/`. */
+  sitePath: string;
+  /** The same folder as blocked courses link to it, e.g. `/courses/`. */
+  aliasPath: string;
+}
+
+/** Path of the site root, e.g. `/course_builder/`, and of its `courses/` alias next to it. */
+export function siteCoursePaths(siteRoot: string): SitePaths {
+  const sitePath = new URL(siteRoot).pathname.replace(/\/?$/, '/');
+  return { sitePath, aliasPath: sitePath === '/' ? sitePath : sitePath.replace(/[^/]+\/$/, `${ALIAS_FOLDER}/`) };
+}
+
+let site = siteCoursePaths(DEFAULT_SITE_ROOT);
+
+/** Sets the site root every URL below is mapped from; called once the config is loaded. */
+export function configureSitePaths(siteRoot: string): void {
+  site = siteCoursePaths(siteRoot);
+}
+
+/** The segments of `pathname` below the site root or its alias, e.g. `['2526', 'MATH1010', 'a.pdf']`; null outside both. */
+export function siteRelativeParts(pathname: string): string[] | null {
+  const prefix = [site.sitePath, site.aliasPath].find(candidate => pathname.startsWith(candidate));
+  return prefix === undefined ? null : pathname.slice(prefix.length).split('/').filter(Boolean);
+}
+
+/** `pathname` with the alias folded into the site root, so both spellings compare equal. */
+export const canonicalSitePath = (pathname: string): string =>
+  pathname.startsWith(site.aliasPath) && !pathname.startsWith(site.sitePath)
+    ? site.sitePath + pathname.slice(site.aliasPath.length)
+    : pathname;
+
+/** Site paths under the site root and its alias are the same files and share one local copy. */
+export function localPathFromUrl(url: string, root: string): string {
+  const u = new URL(url);
+  const parts = siteRelativeParts(u.pathname) ?? u.pathname.split('/').filter(Boolean);
+  return mapPath(root, `/${parts.join('/')}`, root, parts.map(decodeSegment));
+}
+
+/** Like `localPathFromUrl`, for URLs mirrored below `baseDir` (e.g. assets from other hosts). */
+export function mirroredPath(url: string, baseDir: string, root: string): string {
+  const u = new URL(url);
+  const parts = u.pathname.split('/').filter(Boolean);
+  if (u.pathname.endsWith('/')) parts.push('index.html');
+  // never starts with `/`, so it can't clash with a site path key
+  const key = `${relativeToRoot(baseDir, root)}/${parts.join('/')}`;
+  return mapPath(root, key, baseDir, parts.map(decodeSegment));
+}
+
+/* ---------- folders ---------- */
+
+/** Path of a downloaded file relative to the download root, always `/` separated. */
+export const relativeToRoot = (localPath: string, root: string): string =>
+  path.relative(root, localPath).split(path.sep).join('/');
+
+/** The code a course folder is grouped by across years: `math1010b` becomes `MATH1010`. */
+export const courseCode = (label: string): string => label.slice(0, 8).toUpperCase();
+
+/** First calendar year of an academic year folder, e.g. 2019 for `_1920`. */
+export const yearStart = (seg: string): number => 2000 + Number(seg.replace(/^_/, '').slice(0, 2));
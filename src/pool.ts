@@ -0,0 +1,141 @@
+import axios from 'axios';
+
+export interface PoolOptions {
+  concurrency: number;
+  /** Maximum request starts per second and host; 0 disables the limit. */
+  perHostRate: number;
+}
+
+export interface PoolStats {
+  active: number;
+  queued: number;
+  bytesPerSecond: number;
+}
+
+export interface DownloadPool {
+  run<T>(host: string, task: (onBytes: (bytes: number) => void) => Promise<T>): Promise<T>;
+  stats(): PoolStats;
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, err: unknown) => void;
+  /** Once aborted, the error at hand is thrown instead of waiting for another attempt. */
+  signal?: AbortSignal;
+}
+
+const THROUGHPUT_WINDOW_MS = 5_000;
+const RETRYABLE_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ECONNABORTED',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ESOCKETTIMEDOUT',
+  'ERR_STREAM_PREMATURE_CLOSE'
+]);
+
+/** Waits `ms`, or until `signal` is aborted. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+  const done = (): void => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  if (signal?.aborted) done();
+  else signal?.addEventListener('abort', done, { once: true });
+});
+
+export function createDownloadPool(options: PoolOptions): DownloadPool {
+  const concurrency = Math.max(1, options.concurrency);
+  const minInterval = options.perHostRate > 0 ? 1000 / options.perHostRate : 0;
+  const waiting: (() => void)[] = [];
+  const nextStartAt = new Map<string, number>();
+  const samples: { at: number; bytes: number }[] = [];
+  let active = 0;
+
+  const acquire = async (): Promise<void> => {
+    if (active < concurrency) {
+      active += 1;
+      return;
+    }
+    // the releasing task hands its slot over, so `active` stays unchanged
+    await new Promise<void>(resolve => waiting.push(resolve));
+  };
+
+  const release = (): void => {
+    const next = waiting.shift();
+    if (next) next();
+    else active -= 1;
+  };
+
+  const waitForHost = async (host: string): Promise<void> => {
+    if (!minInterval) return;
+    const now = Date.now();
+    const startAt = Math.max(now, nextStartAt.get(host) ?? 0);
+    nextStartAt.set(host, startAt + minInterval);
+    if (startAt > now) await sleep(startAt - now);
+  };
+
+  const recordBytes = (bytes: number): void => {
+    const now = Date.now();
+    samples.push({ at: now, bytes });
+    while (samples.length && samples[0].at < now - THROUGHPUT_WINDOW_MS) samples.shift();
+  };
+
+  return {
+    async run(host, task) {
+      await acquire();
+      try {
+        await waitForHost(host);
+        return await task(recordBytes);
+      } finally {
+        release();
+      }
+    },
+    stats() {
+      const cutoff = Date.now() - THROUGHPUT_WINDOW_MS;
+      const bytes = samples.filter(s => s.at >= cutoff).reduce((sum, s) => sum + s.bytes, 0);
+      return { active, queued: waiting.length, bytesPerSecond: bytes / (THROUGHPUT_WINDOW_MS / 1000) };
+    }
+  };
+}
+
+/** Server errors, rate limiting, timeouts and dropped connections are worth another attempt. */
+export function isRetryableError(err: unknown): boolean {
+  if (axios.isAxiosError(err) && err.response) {
+    return err.response.status >= 500 || err.response.status === 429;
+  }
+  // connection errors surface from axios or, mid-body, from the response stream
+  const code = (err as NodeJS.ErrnoException | null)?.code;
+  return RETRYABLE_CODES.has(code ?? '');
+}
+
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const maxDelayMs = options.maxDelayMs ?? 30_000;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (attempt >= options.retries || options.signal?.aborted || !isRetryableError(err)) throw err;
+      // exponential backoff with +-25% jitter so parallel workers don't retry in lockstep
+      const delay = Math.min(maxDelayMs, options.baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+      options.onRetry?.(attempt + 1, delay, err);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value.toFixed(unit ? 1 : 0)} ${units[unit]}`;
+}
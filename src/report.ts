@@ -0,0 +1,183 @@
+import fs from 'fs';
+import path from 'path';
+import { SyncStatus } from './download';
+import { emptySyncStats, formatSyncStats, SyncStats } from './manifest';
+import { CourseChoice, YearChoice } from './types';
+
+export const REPORT_VERSION = 1;
+
+/**
+ * Why a URL was or wasn't downloaded: `allowed` links and page `asset`s are fetched, `staff`
+ * (unless `followStaff` takes them) and `external` links are filtered out, `filtered` ones
+ * matched a filter rule, crawled `page`s are saved patched and uncrawled `directory`
+ * listings are left alone.
+ */
+export type LinkDecision = 'allowed' | 'asset' | 'staff' | 'external' | 'filtered' | 'page' | 'directory';
+
+export interface FileReport {
+  /** `decodeURI`d, like the manifest keys. */
+  url: string;
+  decision: LinkDecision;
+  /** Relative to the download root; only set for downloaded URLs. */
+  localPath?: string;
+  status?: SyncStatus | 'failed';
+  size?: number;
+  contentType?: string;
+  sha256?: string;
+  durationMs?: number;
+  attempts?: number;
+  error?: string;
+  /** For `filtered` links: the rule that excluded them, e.g. `excludeExtensions: mp4`. */
+  rule?: string;
+  /** Which index files link to it; unset for links found only on sub-pages. */
+  snapshots?: string[];
+}
+
+export interface PageReport {
+  url: string;
+  localPath?: string;
+  error?: string;
+}
+
+export interface CourseReport {
+  course: string;
+  href: string;
+  /** The course index was blocked and a backup such as `index-before_block.html` was saved instead. */
+  blocked: boolean;
+  /** Names of the index files links were taken from, e.g. `index-before_block.html` for a blocked course. */
+  snapshots?: string[];
+  /** Set when the course was not downloaded at all. */
+  skipped?: string;
+  /** Why discovering or downloading the course failed; the run went on with the other courses. */
+  error?: string;
+  startedAt: string;
+  durationMs: number;
+  pages: PageReport[];
+  files: FileReport[];
+  /** Garbled text the string map and the automatic repair couldn't fix; candidates for `stringmap.json`. */
+  unresolvedStrings: string[];
+  stats: SyncStats;
+}
+
+export interface YearReport {
+  year: string;
+  href: string;
+  selection: 'all' | 'blocked-only' | 'courses';
+  courses: CourseReport[];
+}
+
+export interface RunReport {
+  version: typeof REPORT_VERSION;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs: number;
+  siteRoot: string;
+  downloadRoot: string;
+  years: YearReport[];
+  totals: SyncStats;
+  /** Set when the run was stopped with Ctrl+C; see the run state for what was left. */
+  interrupted?: boolean;
+}
+
+export const createRunReport = (siteRoot: string, downloadRoot: string): RunReport => ({
+  version: REPORT_VERSION,
+  startedAt: new Date().toISOString(),
+  durationMs: 0,
+  siteRoot,
+  downloadRoot,
+  years: [],
+  totals: emptySyncStats()
+});
+
+export const createYearReport = (year: YearChoice, selection: YearReport['selection']): YearReport => ({
+  year: year.seg,
+  href: year.href,
+  selection,
+  courses: []
+});
+
+export const createCourseReport = (course: CourseChoice): CourseReport => ({
+  course: course.label,
+  href: course.href,
+  blocked: false,
+  startedAt: new Date().toISOString(),
+  durationMs: 0,
+  pages: [],
+  files: [],
+  unresolvedStrings: [],
+  stats: emptySyncStats()
+});
+
+export function addUnresolvedStrings(report: CourseReport, strings: string[]): void {
+  for (const text of strings) {
+    if (!report.unresolvedStrings.includes(text)) report.unresolvedStrings.push(text);
+  }
+}
+
+export function finishCourseReport(report: CourseReport, stats: SyncStats): void {
+  report.stats = { ...stats };
+  report.durationMs = Date.now() - Date.parse(report.startedAt);
+}
+
+function finishRunReport(report: RunReport): void {
+  const finishedAt = new Date();
+  report.finishedAt = finishedAt.toISOString();
+  report.durationMs = finishedAt.getTime() - Date.parse(report.startedAt);
+  report.totals = emptySyncStats();
+  for (const course of report.years.flatMap(year => year.courses)) {
+    for (const key of Object.keys(report.totals) as (keyof SyncStats)[]) report.totals[key] += course.stats[key];
+  }
+}
+
+/** Plain-text digest of a report: one block per course listing what failed, like the old `missing.txt`. */
+export function formatReportSummary(report: RunReport): string {
+  const lines = [`CUMATDL run ${report.startedAt} (${(report.durationMs / 1000).toFixed(1)}s)`];
+  for (const year of report.years) {
+    lines.push('', `Year ${year.year} (${year.selection})`);
+    for (const course of year.courses) {
+      if (course.skipped) {
+        lines.push(`[${course.course}] skipped: ${course.skipped}`);
+        continue;
+      }
+      const filtered = course.files.filter(f => f.decision === 'staff' || f.decision === 'external').length;
+      const excluded = course.files.filter(f => f.decision === 'filtered').length;
+      lines.push(
+        `[${course.course}]${course.blocked ? ' (blocked)' : ''} ${formatSyncStats(course.stats)}` +
+        (filtered ? `, ${filtered} filtered` : '') +
+        (excluded ? `, ${excluded} excluded by rules` : '')
+      );
+      if (!course.files.some(f => f.decision === 'allowed')) {
+        lines.push(`[${course.course}] No downloadable URLs detected`);
+      }
+      if (course.error) lines.push(`[${course.course}] failed :: ${course.error}`);
+      for (const page of course.pages.filter(p => p.error)) {
+        lines.push(`[${course.course}] ${page.url} :: ${page.error}`);
+      }
+      for (const file of course.files.filter(f => f.error)) {
+        lines.push(`[${course.course}] ${file.url} :: ${file.error}`);
+      }
+      for (const text of course.unresolvedStrings) {
+        lines.push(`[${course.course}] unresolved mojibake :: ${text}`);
+      }
+    }
+  }
+  lines.push('', `Total: ${formatSyncStats(report.totals)}`);
+  if (report.interrupted) lines.push('Interrupted; continue with --resume.');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Writes `<stamp>.json` and its `<stamp>.txt` summary into `reportDir`, and copies the JSON
+ * to `latest.json` so scripts always find the newest run.
+ */
+export async function saveRunReport(report: RunReport, reportDir: string): Promise<string> {
+  finishRunReport(report);
+  const stamp = report.startedAt.replace(/[:.]/g, '-');
+  const jsonPath = path.join(reportDir, `${stamp}.json`);
+  const json = `${JSON.stringify(report, null, 2)}\n`;
+  await fs.promises.mkdir(reportDir, { recursive: true });
+  await fs.promises.writeFile(jsonPath, json, 'utf8');
+  await fs.promises.writeFile(path.join(reportDir, 'latest.json'), json, 'utf8');
+  await fs.promises.writeFile(path.join(reportDir, `${stamp}.txt`), formatReportSummary(report), 'utf8');
+  return jsonPath;
+}
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import { DownloadTarget } from './assets';
+import { createLogger } from './log';
+import { CourseOutline } from './metadata';
+import { YearReport } from './report';
+import { CourseChoice, YearChoice } from './types';
+
+export const RUN_STATE_FILE_NAME = '.cumatdl-run.json';
+
+/** How often per-file progress is written while downloads finish. */
+const SAVE_THROTTLE_MS = 2_000;
+
+const log = createLogger('main');
+
+export interface PendingFile extends DownloadTarget {
+  /** `asset` files are needed by the saved pages and exempt from the size limit. */
+  decision: 'allowed' | 'asset';
+}
+
+export interface CourseState {
+  course: string;
+  href: string;
+  done: boolean;
+  /**
+   * Files queued but not finished yet; set once the course page was saved, so a resumed
+   * run downloads these without opening the course again.
+   */
+  pending?: PendingFile[];
+  /** Saved pages by `pageKey`, relative to the download root; their links are fixed once the files are in. */
+  pages?: Record<string, string>;
+  /** Read off the course index, for `course.json`. */
+  outline?: CourseOutline;
+}
+
+export interface YearState {
+  year: YearChoice;
+  selection: YearReport['selection'];
+  courses: CourseState[];
+}
+
+/** Everything `--resume` needs to carry on where an interrupted run stopped. */
+export interface RunState {
+  version: 1;
+  startedAt: string;
+  updatedAt: string;
+  /** Set when the run was stopped with Ctrl+C rather than by a crash. */
+  interruptedAt?: string;
+  currentYear: string;
+  years: YearChoice[];
+  /** The selection flags, for years the run didn't get to. */
+  selection: { courses: string[]; all: boolean; blockedOnly: boolean };
+  /** Years whose courses were picked, in order. */
+  progress: YearState[];
+}
+
+export interface RunStateTracker {
+  readonly state: RunState;
+  /** What a resumed run already knows about a year. */
+  year(seg: string): YearState | undefined;
+  course(href: string): CourseState | undefined;
+  startYear(year: YearChoice, selection: YearReport['selection'], courses: CourseChoice[]): void;
+  /** Records what opening the course found, so a resumed run can finish its pages without opening it again. */
+  discovered(href: string, pages: Record<string, string>, outline: CourseOutline | null): void;
+  /** Adds files to a course's pending list. */
+  queued(href: string, files: PendingFile[]): void;
+  finished(href: string, url: string): void;
+  courseDone(href: string): void;
+  save(): Promise<void>;
+  /** Removes the state file once the run completed. */
+  clear(): Promise<void>;
+}
+
+export const createRunState = (
+  currentYear: string,
+  years: YearChoice[],
+  selection: RunState['selection']
+): RunState => {
+  const now = new Date().toISOString();
+  return { version: 1, startedAt: now, updatedAt: now, currentYear, years, selection, progress: [] };
+};
+
+export async function loadRunState(root: string): Promise<RunState | null> {
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(path.join(root, RUN_STATE_FILE_NAME), 'utf8')) as RunState;
+    if (parsed.version === 1 && Array.isArray(parsed.years) && Array.isArray(parsed.progress)) return parsed;
+  } catch {
+    // no unfinished run
+  }
+  return null;
+}
+
+/** Written to a temporary file first, so an interrupted save never leaves half a state behind. */
+async function writeState(filePath: string, state: RunState): Promise<void> {
+  const tmpPath = `${filePath}.tmp`;
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(tmpPath, `${JSON.stringify(state, null, 2)}\n`, 'utf8');
+  await fs.promises.rename(tmpPath, filePath);
+}
+
+export function trackRunState(root: string, state: RunState): RunStateTracker {
+  const filePath = path.join(root, RUN_STATE_FILE_NAME);
+  const courses = new Map(state.progress.flatMap(year => year.courses.map(course => [course.href, course] as const)));
+  let saving: Promise<void> = Promise.resolve();
+  let timer: NodeJS.Timeout | null = null;
+  let cleared = false;
+  let failing = false;
+
+  const save = (): Promise<void> => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    state.updatedAt = new Date().toISOString();
+    // one write at a time, always of the latest state; a failed one is logged once until a write succeeds
+    saving = saving
+      .then(() => (cleared ? undefined : writeState(filePath, state)))
+      .then(
+        () => {
+          failing = false;
+        },
+        err => {
+          if (failing) return;
+          failing = true;
+          const message = err instanceof Error ? err.message : String(err);
+          log.warn(`Could not save the run state to ${filePath}: ${message}`, { path: filePath, error: message });
+        }
+      );
+    return saving;
+  };
+  const saveSoon = (): void => {
+    timer ??= setTimeout(() => void save(), SAVE_THROTTLE_MS);
+  };
+
+  return {
+    state,
+    year: seg => state.progress.find(year => year.year.seg === seg),
+    course: href => courses.get(href),
+    startYear(year, selection, picked) {
+      const entry: YearState = {
+        year,
+        selection,
+        courses: picked.map(course => ({ course: course.label, href: course.href, done: false }))
+      };
+      state.progress.push(entry);
+      entry.courses.forEach(course => courses.set(course.href, course));
+      void save();
+    },
+    discovered(href, pages, outline) {
+      const course = courses.get(href);
+      if (!course) return;
+      course.pages = pages;
+      if (outline) course.outline = outline;
+      else delete course.outline;
+    },
+    queued(href, files) {
+      const course = courses.get(href);
+      if (!course) return;
+      const known = new Set((course.pending ?? []).map(file => file.url));
+      course.pending = [...(course.pending ?? []), ...files.filter(file => !known.has(file.url))];
+      void save();
+    },
+    finished(href, url) {
+      const course = courses.get(href);
+      if (!course?.pending) return;
+      course.pending = course.pending.filter(file => file.url !== url);
+      saveSoon();
+    },
+    courseDone(href) {
+      const course = courses.get(href);
+      if (!course) return;
+      course.done = true;
+      delete course.pending;
+      delete course.pages;
+      delete course.outline;
+      void save();
+    },
+    save,
+    async clear() {
+      cleared = true;
+      if (timer) clearTimeout(timer);
+      await saving;
+      await fs.promises.rm(filePath, { force: true });
+    }
+  };
+}
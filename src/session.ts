@@ -0,0 +1,218 @@
+import axios, { AxiosResponse } from 'axios';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import type { Page } from 'puppeteer';
+import { browserCookies, browserCredentials, http, prepareAuth, storeBrowserCookies } from './auth';
+import { createLogger, LogLevel } from './log';
+import { RetryOptions, withRetry } from './pool';
+
+/**
+ * `http` fetches pages with axios and parses them with jsdom; `browser` drives headless
+ * Chromium; `auto` uses HTTP and opens a page in Chromium only when it has no links without it.
+ */
+export type Engine = 'http' | 'browser' | 'auto';
+
+export const ENGINES: Engine[] = ['http', 'browser', 'auto'];
+
+const discoveryLog = createLogger('discovery');
+const patcherLog = createLogger('patcher');
+const pageLog = createLogger('page');
+
+/** What the in-page functions log starts with; anything else comes from the page's own scripts. */
+const PATCHER_PREFIX = '[Patcher] ';
+
+function forwardConsole(level: LogLevel, text: string): void {
+  if (text.startsWith(PATCHER_PREFIX)) patcherLog[level](text.slice(PATCHER_PREFIX.length));
+  else pageLog.debug(text);
+}
+
+/**
+ * The one open page discovery works on. Both engines run the same in-page functions
+ * (`patchDocument` and friends), so they must not reference anything outside their body.
+ */
+export interface PageSession {
+  /** Opens `url` and resolves with the HTTP status, or null when there was no response. */
+  goto(url: string): Promise<number | null>;
+  url(): string;
+  evaluate<A extends unknown[], R>(fn: (...args: A) => R, ...args: A): Promise<R>;
+  close(): Promise<void>;
+}
+
+export interface ListingLink {
+  text: string;
+  href: string;
+  raw: string;
+}
+
+/** Runs in the page: the entries of an Apache directory index. */
+export function listingLinks(): ListingLink[] {
+  return Array.from(document.querySelectorAll('body > table > tbody > tr > td:nth-child(2) > a')).map(a => ({
+    text: a.textContent?.trim() ?? '',
+    href: (a as HTMLAnchorElement).href,
+    raw: a.getAttribute('href') ?? ''
+  }));
+}
+
+/** Runs in the page: the absolute URL of every link. */
+export function pageLinks(): string[] {
+  return Array.from(document.querySelectorAll('a[href]')).map(a => (a as HTMLAnchorElement).href);
+}
+
+/** Runs in the page: whether it is an Apache directory index rather than a course page. */
+export function isDirectoryListing(): boolean {
+  return /^Index of \//.test(document.title);
+}
+
+/** Runs in the page: whether it asks for a password, as login forms do. */
+export function hasPasswordField(): boolean {
+  return document.querySelector('input[type=password]') !== null;
+}
+
+/* ---------- http ---------- */
+
+const PAGE_TIMEOUT_MS = 60_000;
+
+/** jsdom only parses HTML types; anything else is treated as HTML but keeps its charset. */
+function htmlContentType(header: unknown): string {
+  const value = typeof header === 'string' ? header : '';
+  if (/^\s*(text\/html|application\/xhtml\+xml)/i.test(value)) return value;
+  const charset = value.match(/charset=([^;]+)/i)?.[1];
+  return charset ? `text/html; charset=${charset}` : 'text/html';
+}
+
+/**
+ * Fetches pages over HTTP and evaluates the in-page functions inside a jsdom window.
+ * Page scripts never run, which is all a plain Apache listing or course index needs.
+ * Without a charset in the headers or a `<meta>`, jsdom decodes like a browser would.
+ */
+export function createHttpSession(retry: RetryOptions): PageSession {
+  const virtualConsole = new VirtualConsole();
+  for (const [method, level] of [['debug', 'debug'], ['log', 'info'], ['info', 'info'], ['warn', 'warn'], ['error', 'error']] as const) {
+    virtualConsole.on(method, (...args: unknown[]) => forwardConsole(level, args.map(String).join(' ')));
+  }
+  let dom: JSDOM | null = null;
+  let currentUrl = 'about:blank';
+
+  return {
+    async goto(url) {
+      // server errors are retried; what is left of them afterwards is an answer like any other
+      const response = await withRetry(
+        () => http.get<ArrayBuffer>(url, {
+          responseType: 'arraybuffer',
+          timeout: PAGE_TIMEOUT_MS,
+          validateStatus: status => status < 500 && status !== 429
+        }),
+        retry
+      ).catch((err: unknown) => {
+        if (axios.isAxiosError(err) && err.response) return err.response as AxiosResponse<ArrayBuffer>;
+        throw err;
+      });
+      currentUrl = response.request?.res?.responseUrl ?? url;
+      dom?.window.close();
+      dom = new JSDOM(Buffer.from(response.data), {
+        url: currentUrl,
+        contentType: htmlContentType(response.headers['content-type']),
+        runScripts: 'outside-only',
+        virtualConsole
+      });
+      return response.status;
+    },
+    url: () => currentUrl,
+    async evaluate(fn, ...args) {
+      if (!dom) throw new Error('No page open');
+      const result = dom.window.eval(`(${fn.toString()})(...${JSON.stringify(args)})`);
+      // serialize like Puppeteer does, so results don't carry objects of the jsdom realm
+      return result === undefined ? result : JSON.parse(JSON.stringify(result));
+    },
+    async close() {
+      dom?.window.close();
+      dom = null;
+    }
+  };
+}
+
+/* ---------- browser ---------- */
+
+/** Pages that reload themselves destroy the context an evaluation runs in; wait and try again. */
+async function evaluateWithRetry<T>(page: Page, evaluate: () => Promise<T>, retries = 3): Promise<T> {
+  for (let attempt = 0; attempt < retries; attempt++) {
+    try {
+      return await evaluate();
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const destroyed = /Execution context was destroyed|Cannot find context with specified id/i.test(message);
+      if (!destroyed || attempt === retries - 1) throw err;
+      patcherLog.info('Page refreshed itself; retrying evaluation...');
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      await page.waitForFunction(() => document.readyState === 'complete', { timeout: 10_000 }).catch(() => {});
+    }
+  }
+  throw new Error('Evaluation retries exceeded');
+}
+
+/** Headless Chromium, for pages that only render their links with JavaScript. */
+export async function createBrowserSession(): Promise<PageSession> {
+  const { default: puppeteer } = await import('puppeteer');
+  const browser = await puppeteer.launch({
+    headless: true,
+    // Ctrl+C stops the run gracefully; the browser is closed once that is done
+    handleSIGINT: false,
+    args: ['--ignore-certificate-errors']
+  });
+  const page = await browser.newPage();
+  page.on('console', msg => {
+    const type = msg.type();
+    forwardConsole(type === 'debug' ? 'debug' : type === 'warn' ? 'warn' : type === 'error' ? 'error' : 'info', msg.text());
+  });
+
+  return {
+    async goto(url) {
+      // the browser shares the HTTP client's login: same credentials, same cookie jar
+      await prepareAuth(url);
+      await page.authenticate(browserCredentials(url));
+      const cookies = browserCookies(url);
+      if (cookies.length) await page.setCookie(...cookies);
+      const response = await page.goto(url, { waitUntil: ['domcontentloaded', 'networkidle0'] });
+      storeBrowserCookies(await page.cookies(), page.url());
+      return response?.status() ?? null;
+    },
+    url: () => page.url(),
+    evaluate: (fn, ...args) =>
+      evaluateWithRetry(page, () => page.evaluate(fn as (...a: unknown[]) => unknown, ...args) as Promise<never>),
+    close: () => browser.close()
+  };
+}
+
+/* ---------- fallback ---------- */
+
+/**
+ * HTTP first; a page that answers but has no links at all is opened again in headless
+ * Chromium, which is only launched once a page needs it.
+ */
+export function createFallbackSession(retry: RetryOptions): PageSession {
+  const httpSession = createHttpSession(retry);
+  let browserSession: Promise<PageSession> | null = null;
+  let current = httpSession;
+
+  return {
+    async goto(url) {
+      current = httpSession;
+      const status = await httpSession.goto(url);
+      if (status === null || status >= 400 || (await httpSession.evaluate(pageLinks)).length) return status;
+      discoveryLog.info(`No links in ${url} without JavaScript; opening it in Chromium`, { url });
+      browserSession ??= createBrowserSession();
+      current = await browserSession;
+      return current.goto(url);
+    },
+    url: () => current.url(),
+    evaluate: (fn, ...args) => current.evaluate(fn, ...args),
+    async close() {
+      await httpSession.close();
+      if (browserSession) await (await browserSession).close();
+    }
+  };
+}
+
+export function createSession(engine: Engine, retry: RetryOptions): Promise<PageSession> {
+  if (engine === 'browser') return createBrowserSession();
+  return Promise.resolve(engine === 'auto' ? createFallbackSession(retry) : createHttpSession(retry));
+}
@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { canonicalSitePath, safeSegment } from './paths';
+
+export const SNAPSHOT_LOG_FILE_NAME = '.cumatdl-snapshots.json';
+
+/** What the page a blocked course shows instead of its index is kept as. */
+export const BLOCKED_SNAPSHOT_NAME = 'index.blocked.html';
+
+/** `index-before_block.html`, `index-old.html`, `index.html.bak`, `index_20240901.htm`, `index2.html`, ... */
+const ALTERNATE_INDEX = /^index(?:[-_.\d][^/]*)?\.s?html?(?:[-_.~][^/]*)?$/i;
+const PLAIN_INDEX = /^index\.s?html?$/i;
+
+export interface SnapshotVersion {
+  url: string;
+  sha256: string;
+  /** When this content was first saved. */
+  savedAt: string;
+}
+
+/** Earlier contents of a snapshot, moved aside when the server's copy changed. */
+export interface ArchivedSnapshot extends SnapshotVersion {
+  name: string;
+  /** File name in the course folder, e.g. `index.2025-09-01T10-15-00.html`. */
+  file: string;
+}
+
+interface SnapshotLog {
+  version: 1;
+  current: Record<string, SnapshotVersion>;
+  history: ArchivedSnapshot[];
+}
+
+export const isAlternateIndex = (name: string): boolean => ALTERNATE_INDEX.test(name) && !PLAIN_INDEX.test(name);
+
+const folderOf = (pathname: string): string => canonicalSitePath(pathname.slice(0, pathname.lastIndexOf('/') + 1));
+
+function fileName(u: URL): string {
+  const last = u.pathname.split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(last);
+  } catch {
+    return last;
+  }
+}
+
+/** `index-before_block.html` first, then dated copies newest first, then the rest by name. */
+function rank(name: string): number {
+  if (/before_block/i.test(name)) return 0;
+  return /\d{4,}/.test(name) ? 1 : 2;
+}
+
+/** The backup index files among `links` that sit directly in the course folder, best candidate first. */
+export function alternateIndexUrls(links: string[], courseHref: string): string[] {
+  const course = new URL(courseHref);
+  const folder = folderOf(course.pathname);
+  const found = new Map<string, string>();
+  for (const link of links) {
+    let u: URL;
+    try {
+      u = new URL(link);
+    } catch {
+      continue;
+    }
+    if (u.origin !== course.origin || folderOf(u.pathname) !== folder) continue;
+    u.hash = '';
+    u.search = '';
+    const name = fileName(u);
+    if (isAlternateIndex(name) && !found.has(name)) found.set(name, u.toString());
+  }
+  return [...found]
+    .sort(([a], [b]) => rank(a) - rank(b) || (rank(a) === 1 ? b.localeCompare(a) : a.localeCompare(b)))
+    .map(([, url]) => url);
+}
+
+/** Snapshots are opened as HTML from disk, so `index.html.bak` is kept as `index.html.bak.html`. */
+export function snapshotName(url: string): string {
+  const name = fileName(new URL(url));
+  return safeSegment(/\.s?html?$/i.test(name) ? name : `${name}.html`);
+}
+
+async function loadSnapshotLog(courseDir: string): Promise<SnapshotLog> {
+  try {
+    const parsed = JSON.parse(await fs.promises.readFile(path.join(courseDir, SNAPSHOT_LOG_FILE_NAME), 'utf8')) as SnapshotLog;
+    if (parsed.version === 1 && parsed.current) return { ...parsed, history: parsed.history ?? [] };
+  } catch {
+    // first snapshot of this course
+  }
+  return { version: 1, current: {}, history: [] };
+}
+
+/**
+ * Writes an index page to `localPath`. When the page differs from what was saved there
+ * before, the old copy is first renamed after the time it was saved, so every version of
+ * the index stays next to the current one. Returns the archived file name, if any.
+ */
+export async function saveSnapshot(courseDir: string, localPath: string, url: string, html: string): Promise<string | null> {
+  const log = await loadSnapshotLog(courseDir);
+  const name = path.basename(localPath);
+  const sha256 = crypto.createHash('sha256').update(html).digest('hex');
+  const previous = log.current[name];
+  let archived: string | null = null;
+  if (previous && previous.sha256 !== sha256 && fs.existsSync(localPath)) {
+    const ext = path.extname(name);
+    archived = `${name.slice(0, name.length - ext.length)}.${previous.savedAt.replace(/[:.]/g, '-').slice(0, 19)}${ext}`;
+    await fs.promises.rename(localPath, path.join(path.dirname(localPath), archived));
+    log.history.push({ ...previous, name, file: archived });
+  }
+  if (!previous || previous.sha256 !== sha256) log.current[name] = { url, sha256, savedAt: new Date().toISOString() };
+
+  await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+  await fs.promises.writeFile(localPath, html, 'utf8');
+  await fs.promises.writeFile(path.join(courseDir, SNAPSHOT_LOG_FILE_NAME), `${JSON.stringify(log, null, 2)}\n`, 'utf8');
+  return archived;
+}
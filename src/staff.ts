@@ -0,0 +1,31 @@
+import path from 'path';
+import { mirroredPath } from './paths';
+
+/**
+ * What happens to links into staff home pages: `none` skips them, `files` downloads the
+ * files they point at, `pages` also opens the staff pages linked from course pages (one
+ * level) and downloads the files those link to inside the same home directory.
+ */
+export type StaffMode = 'none' | 'files' | 'pages';
+
+export const STAFF_MODES: StaffMode[] = ['none', 'files', 'pages'];
+
+/** Per-course folder staff files are kept in. */
+export const STAFF_DIR_NAME = 'staff';
+
+export const isStaffUrl = (url: string, staffPrefix: string): boolean => url.startsWith(staffPrefix);
+
+/** `https://host/~lam/teaching/x.pdf` -> `https://host/~lam/`, the directory a staff page may link into. */
+export function staffHome(url: string, staffPrefix: string): string | null {
+  if (!isStaffUrl(url, staffPrefix)) return null;
+  const user = url.slice(staffPrefix.length).split(/[/?#]/)[0];
+  return user ? `${staffPrefix}${user}/` : null;
+}
+
+/** `https://host/~lam/teaching/x.pdf` is kept as `<courseDir>/staff/lam/teaching/x.pdf`. */
+export function staffLocalPath(url: string, staffPrefix: string, courseDir: string, root: string): string {
+  const u = new URL(url);
+  // only the part after the prefix is mirrored, so `~` never ends up in a folder name
+  const rest = new URL(url.slice(staffPrefix.length).replace(/^\/+/, ''), `${u.origin}/`);
+  return mirroredPath(rest.href, path.join(courseDir, STAFF_DIR_NAME), root);
+}
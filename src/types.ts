@@ -0,0 +1,57 @@
+export interface YearChoice {
+  label: string;
+  displayLabel: string;
+  href: string;
+  seg: string;
+}
+
+export interface CourseChoice {
+  label: string;
+  displayLabel: string;
+  href: string;
+}
+
+export interface CourseSelection {
+  courses: CourseChoice[];
+  allSelected: boolean;
+  blockedOnly: boolean;
+}
+
+export interface FileTransferProgress {
+  name: string;
+  received: number;
+  total: number | null;
+}
+
+export interface CourseProgressPayload {
+  courseName: string;
+  downloaded: number;
+  total: number;
+  transfers?: FileTransferProgress[];
+}
+
+export interface PatchConfig {
+  applyYearRewrite: boolean;
+  yearExpSource: string;
+  yearPrefix: string;
+  courseYearDigits: string;
+  staffPrefix: string;
+  /** Tag and collect links into staff home pages instead of leaving them alone. */
+  followStaff: boolean;
+  allowedHosts: string[];
+  forceHostReplacement: boolean;
+  hostNeedingFix?: string;
+  hostReplacement: string;
+  /** Path of the site root, e.g. `/course_builder/`. */
+  sitePath: string;
+  /** The same folder as blocked courses link to it, e.g. `/courses/`. */
+  aliasPath: string;
+  /** Rewrites links under `sitePath` to `aliasPath`, for blocked courses. */
+  replaceCourseBuilderPaths: boolean;
+  blockedCoursesOnly: boolean;
+  /** Discovery only: pages are captured but not saved. */
+  dryRun: boolean;
+  /** Garbled fragment -> repair; filled per page by `capturePage` from the mojibake scan. */
+  stringMap: Record<string, string>;
+  courseProgressCb?: (payload: CourseProgressPayload | null) => void;
+}
@@ -0,0 +1,353 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { PART_SUFFIX } from './download';
+import { RemoteInfo } from './inventory';
+import { ManifestEntry } from './manifest';
+import { formatBytes } from './pool';
+
+/**
+ * Local: `missing`, `empty`, `truncated` (smaller than when it was downloaded), `size`
+ * (larger), `hash` (same size, other content), `html-page` (an error or login page saved
+ * under a file name), `signature` (content doesn't match the extension).
+ * Remote: `remote-size` and `remote-type` differ from the local copy, `remote-gone` is a
+ * 404/410. `partial` is a `.part` file left behind by an interrupted download, `unmanaged`
+ * a file no manifest lists; only the content of those is checked and they are never repaired.
+ */
+export type VerifyProblem =
+  | 'missing'
+  | 'empty'
+  | 'truncated'
+  | 'size'
+  | 'hash'
+  | 'html-page'
+  | 'signature'
+  | 'remote-size'
+  | 'remote-type'
+  | 'remote-gone'
+  | 'partial'
+  | 'unmanaged';
+
+/** Problems fixed by downloading the file again; the others are only reported. */
+const REPAIRABLE: VerifyProblem[] = ['missing', 'empty', 'truncated', 'size', 'hash', 'html-page', 'signature', 'remote-size'];
+
+export interface VerifyFile {
+  url: string;
+  /** Relative to the download root. */
+  localPath: string;
+  problems: VerifyProblem[];
+  /** Null when there is no local copy. */
+  size: number | null;
+  /** Size recorded in the manifest. */
+  expectedSize?: number;
+  /** What the first bytes look like, e.g. `html` or `zip`, when that's unexpected. */
+  detected?: string;
+  remoteSize?: number | null;
+  remoteType?: string;
+  error?: string;
+  repaired?: boolean;
+}
+
+export interface VerifyCourse {
+  year: string;
+  course: string;
+  checked: number;
+  /** Only files with problems. */
+  files: VerifyFile[];
+}
+
+export interface VerifyTotals {
+  checked: number;
+  ok: number;
+  bad: number;
+  /** Files with nothing but remote or leftover-part notes. */
+  warnings: number;
+  repaired: number;
+}
+
+export interface VerifyReport {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  downloadRoot: string;
+  remote: boolean;
+  repair: boolean;
+  courses: VerifyCourse[];
+  totals: VerifyTotals;
+}
+
+/* ---------- file types ---------- */
+
+const HTML_EXTENSIONS = new Set(['.html', '.htm', '.shtml', '.xhtml', '.xml', '.svg', '.php', '.asp', '.aspx', '.jsp']);
+
+/** Extensions whose files always start with a known signature. */
+const EXPECTED_KIND: Record<string, string> = {
+  '.pdf': 'pdf',
+  '.docx': 'zip', '.xlsx': 'zip', '.pptx': 'zip', '.odt': 'zip', '.ods': 'zip', '.odp': 'zip', '.epub': 'zip', '.zip': 'zip',
+  '.doc': 'ole', '.xls': 'ole', '.ppt': 'ole',
+  '.png': 'png',
+  '.jpg': 'jpeg', '.jpeg': 'jpeg',
+  '.gif': 'gif',
+  '.gz': 'gzip', '.tgz': 'gzip',
+  '.rar': 'rar',
+  '.7z': '7z',
+  '.ps': 'postscript', '.eps': 'postscript',
+  '.djvu': 'djvu',
+  '.mp4': 'mp4', '.m4v': 'mp4', '.m4a': 'mp4', '.mov': 'mp4'
+};
+
+const SIGNATURES: [string, (head: Buffer) => boolean][] = [
+  // PDF readers accept junk before the header, as long as it's within the first KB
+  ['pdf', head => head.includes('%PDF-')],
+  ['zip', head => head.subarray(0, 4).equals(Buffer.from('PK\x03\x04', 'latin1')) || head.subarray(0, 4).equals(Buffer.from('PK\x05\x06', 'latin1'))],
+  ['ole', head => head.subarray(0, 8).equals(Buffer.from('d0cf11e0a1b11ae1', 'hex'))],
+  ['png', head => head.subarray(0, 8).equals(Buffer.from('89504e470d0a1a0a', 'hex'))],
+  ['jpeg', head => head.subarray(0, 3).equals(Buffer.from('ffd8ff', 'hex'))],
+  ['gif', head => head.subarray(0, 4).toString('latin1') === 'GIF8'],
+  ['gzip', head => head.subarray(0, 2).equals(Buffer.from('1f8b', 'hex'))],
+  ['rar', head => head.subarray(0, 4).toString('latin1') === 'Rar!'],
+  ['7z', head => head.subarray(0, 6).equals(Buffer.from('377abcaf271c', 'hex'))],
+  ['postscript', head => head.subarray(0, 2).toString('latin1') === '%!' || head.subarray(0, 4).equals(Buffer.from('c5d0d3c6', 'hex'))],
+  ['djvu', head => head.subarray(0, 8).toString('latin1') === 'AT&TFORM'],
+  ['mp4', head => head.subarray(4, 8).toString('latin1') === 'ftyp'],
+  ['html', head => /^\uFEFF?\s*<(?:!doctype\s+html|html|head|body|title)[\s>]/i.test(head.toString('utf8'))]
+];
+
+/** The first signature `head` matches, or null for plain data. */
+export function sniffKind(head: Buffer): string | null {
+  return SIGNATURES.find(([, test]) => test(head))?.[0] ?? null;
+}
+
+const baseType = (contentType?: string): string => (contentType ?? '').split(';')[0].trim().toLowerCase();
+
+async function readHead(filePath: string, bytes = 1024): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function sha256(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) hash.update(chunk as Buffer);
+  return hash.digest('hex');
+}
+
+/* ---------- checks ---------- */
+
+/** Checks the local copy of a manifest entry: presence, size, content type by magic bytes, and hash. */
+export async function checkLocalFile(entry: ManifestEntry, root: string): Promise<VerifyFile> {
+  const file: VerifyFile = { url: entry.url, localPath: entry.path, problems: [], size: null, expectedSize: entry.size };
+  const localPath = path.join(root, entry.path);
+  let size: number;
+  try {
+    size = (await fs.promises.stat(localPath)).size;
+  } catch {
+    file.problems.push('missing');
+    return file;
+  }
+  file.size = size;
+  if (!size) {
+    file.problems.push('empty');
+    return file;
+  }
+  if (size !== entry.size) file.problems.push(size < entry.size ? 'truncated' : 'size');
+
+  checkContent(file, localPath, await readHead(localPath));
+  if (!file.problems.length && (await sha256(localPath)) !== entry.sha256) file.problems.push('hash');
+  return file;
+}
+
+/** An HTML page saved under another file name, or content that doesn't match the extension. */
+function checkContent(file: VerifyFile, localPath: string, head: Buffer): void {
+  const ext = path.extname(localPath).toLowerCase();
+  const kind = sniffKind(head);
+  if (kind === 'html' && !HTML_EXTENSIONS.has(ext)) {
+    file.problems.push('html-page');
+    file.detected = kind;
+  } else if (EXPECTED_KIND[ext] && kind !== EXPECTED_KIND[ext]) {
+    file.problems.push('signature');
+    file.detected = kind ?? 'unknown';
+  }
+}
+
+/** Compares what the server has now with the local copy and the manifest. */
+export function compareRemote(file: VerifyFile, entry: ManifestEntry, remote: RemoteInfo | Error): void {
+  if (remote instanceof Error) {
+    file.error = remote.message;
+    return;
+  }
+  if (remote.status === 404 || remote.status === 410) {
+    file.problems.push('remote-gone');
+    return;
+  }
+  if (remote.status >= 400) {
+    file.error = `HTTP ${remote.status}`;
+    return;
+  }
+  file.remoteSize = remote.size;
+  file.remoteType = remote.contentType;
+  // a local copy that is already broken is reported for that, not for differing from the server;
+  // stylesheets are rewritten to point at the local assets: compare what the server sent for them
+  const expected = entry.remoteSize ?? (entry.assets === undefined ? file.size : null);
+  if (remote.size !== null && expected !== null && remote.size !== expected && !file.problems.length) {
+    file.problems.push('remote-size');
+  }
+  if (entry.contentType && remote.contentType && baseType(entry.contentType) !== baseType(remote.contentType)) {
+    file.problems.push('remote-type');
+  }
+}
+
+/**
+ * Whether downloading the file again should fix it. Never when the server now answers
+ * with an HTML page for a file that isn't one: that would replace the copy with the page.
+ */
+export function needsRepair(file: VerifyFile): boolean {
+  if (file.problems.includes('remote-gone')) return false;
+  if (baseType(file.remoteType) === 'text/html' && !HTML_EXTENSIONS.has(path.extname(file.localPath).toLowerCase())) {
+    return false;
+  }
+  return file.problems.some(problem => REPAIRABLE.includes(problem));
+}
+
+/** Every file below `dir`, skipping CUMATDL's own dot files. */
+async function walkFiles(dir: string): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) files.push(...(await walkFiles(full)));
+    else if (entry.isFile() && !entry.name.startsWith('.')) files.push(full);
+  }
+  return files;
+}
+
+const relativePath = (filePath: string, root: string): string => path.relative(root, filePath).split(path.sep).join('/');
+
+/** `.part` files under `dir`, relative to the download root, with the URL they were for when known. */
+export async function findPartialFiles(dir: string, root: string): Promise<VerifyFile[]> {
+  const found: VerifyFile[] = [];
+  for (const full of (await walkFiles(dir)).filter(file => file.endsWith(PART_SUFFIX))) {
+    let url = '';
+    try {
+      url = (JSON.parse(await fs.promises.readFile(`${full}.json`, 'utf8')) as { url?: string }).url ?? '';
+    } catch {
+      // a part without its resume metadata
+    }
+    const { size } = await fs.promises.stat(full);
+    found.push({ url, localPath: relativePath(full, root), problems: ['partial'], size });
+  }
+  return found;
+}
+
+/**
+ * Checks the files under `dir` that aren't in `known` (manifest paths, relative to the
+ * download root) for being empty, an HTML page or not what their extension says. Returns
+ * how many were checked and the ones with problems.
+ */
+export async function checkUnmanagedFiles(
+  dir: string,
+  root: string,
+  known: Set<string>
+): Promise<{ checked: number; files: VerifyFile[] }> {
+  const unmanaged = (await walkFiles(dir)).filter(full =>
+    !known.has(relativePath(full, root)) && !full.endsWith(PART_SUFFIX) && !full.endsWith(`${PART_SUFFIX}.json`)
+  );
+  const files: VerifyFile[] = [];
+  for (const full of unmanaged) {
+    const file: VerifyFile = { url: '', localPath: relativePath(full, root), problems: [], size: null };
+    try {
+      file.size = (await fs.promises.stat(full)).size;
+      if (!file.size) file.problems.push('empty');
+      else checkContent(file, full, await readHead(full));
+    } catch (err) {
+      file.error = err instanceof Error ? err.message : String(err);
+    }
+    if (file.problems.length || file.error) files.push({ ...file, problems: ['unmanaged', ...file.problems] });
+  }
+  return { checked: unmanaged.length, files };
+}
+
+/* ---------- report ---------- */
+
+export const createVerifyReport = (downloadRoot: string, remote: boolean, repair: boolean): VerifyReport => ({
+  startedAt: new Date().toISOString(),
+  finishedAt: '',
+  durationMs: 0,
+  downloadRoot,
+  remote,
+  repair,
+  courses: [],
+  totals: { checked: 0, ok: 0, bad: 0, warnings: 0, repaired: 0 }
+});
+
+/** A file is bad while it has a repairable problem that wasn't repaired. */
+export const isBad = (file: VerifyFile): boolean =>
+  !file.repaired && file.problems.some(problem => REPAIRABLE.includes(problem));
+
+export function finishVerifyReport(report: VerifyReport): void {
+  const finishedAt = new Date();
+  report.finishedAt = finishedAt.toISOString();
+  report.durationMs = finishedAt.getTime() - Date.parse(report.startedAt);
+  const totals: VerifyTotals = { checked: 0, ok: 0, bad: 0, warnings: 0, repaired: 0 };
+  for (const course of report.courses) {
+    const listed = course.files.filter(file => !file.problems.includes('partial'));
+    totals.checked += course.checked;
+    totals.ok += course.checked - listed.length;
+    totals.bad += course.files.filter(isBad).length;
+    totals.repaired += course.files.filter(file => file.repaired).length;
+    totals.warnings += course.files.filter(file => !file.repaired && !isBad(file)).length;
+  }
+  report.totals = totals;
+}
+
+export const formatVerifyTotals = (totals: VerifyTotals): string =>
+  `${totals.checked} checked, ${totals.ok} ok, ${totals.bad} bad` +
+  (totals.repaired ? `, ${totals.repaired} repaired` : '') +
+  (totals.warnings ? `, ${totals.warnings} warnings` : '');
+
+function describeFile(file: VerifyFile): string {
+  const details = [
+    file.size !== null && file.expectedSize !== undefined && file.size !== file.expectedSize
+      ? `${formatBytes(file.size)} of ${formatBytes(file.expectedSize)}`
+      : '',
+    file.detected ? `looks like ${file.detected}` : '',
+    file.problems.includes('remote-size') && file.remoteSize != null ? `remote ${formatBytes(file.remoteSize)}` : '',
+    file.problems.includes('remote-type') && file.remoteType ? `remote ${file.remoteType}` : '',
+    file.error ?? '',
+    file.repaired ? 'repaired' : ''
+  ].filter(Boolean);
+  return `${file.localPath} :: ${file.problems.join(', ')}${details.length ? ` (${details.join(', ')})` : ''}`;
+}
+
+/** Plain-text digest: one line per file with problems, grouped by course. */
+export function formatVerifySummary(report: VerifyReport): string {
+  const lines = [`CUMATDL verify ${report.startedAt} (${(report.durationMs / 1000).toFixed(1)}s)`];
+  for (const course of report.courses) {
+    if (!course.files.length) continue;
+    lines.push('', `[${course.year}/${course.course}] ${course.checked} checked`);
+    for (const file of course.files) lines.push(`  ${describeFile(file)}`);
+  }
+  lines.push('', `Total: ${formatVerifyTotals(report.totals)}`);
+  return `${lines.join('\n')}\n`;
+}
+
+/** Writes `verify-<stamp>.json` and its `.txt` summary into `reportDir`. */
+export async function saveVerifyReport(report: VerifyReport, reportDir: string): Promise<string> {
+  finishVerifyReport(report);
+  const stamp = `verify-${report.startedAt.replace(/[:.]/g, '-')}`;
+  const jsonPath = path.join(reportDir, `${stamp}.json`);
+  await fs.promises.mkdir(reportDir, { recursive: true });
+  await fs.promises.writeFile(jsonPath, `${JSON.stringify(report, null, 2)}\n`, 'utf8');
+  await fs.promises.writeFile(path.join(reportDir, `${stamp}.txt`), formatVerifySummary(report), 'utf8');
+  return jsonPath;
+}
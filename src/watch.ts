@@ -0,0 +1,160 @@
+import axios from 'axios';
+import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './log';
+import { emptySyncStats, SyncStats } from './manifest';
+import { RunReport } from './report';
+
+export const CHANGELOG_FILE_NAME = 'changelog.jsonl';
+
+export interface CourseChanges {
+  year: string;
+  course: string;
+  /** Local paths relative to the download root. */
+  new: string[];
+  updated: string[];
+  removed: number;
+  /** URLs that failed this poll. */
+  failed: string[];
+}
+
+export interface ChangelogEntry {
+  poll: number;
+  startedAt: string;
+  finishedAt: string;
+  /** Only courses where something happened. */
+  courses: CourseChanges[];
+  totals: SyncStats;
+  /** Set when the poll failed before it could tell what changed. */
+  error?: string;
+}
+
+/** Receives every changelog entry with changes in it. */
+export type Notifier = (entry: ChangelogEntry) => Promise<void>;
+
+/** What changed in one poll, from its run report; course page assets are left out. */
+export function buildChangelogEntry(report: RunReport, poll: number): ChangelogEntry {
+  const courses: CourseChanges[] = [];
+  const totals = emptySyncStats();
+  for (const year of report.years) {
+    for (const course of year.courses) {
+      for (const key of Object.keys(totals) as (keyof SyncStats)[]) totals[key] += course.stats[key];
+      const links = course.files.filter(file => file.decision === 'allowed');
+      const changes: CourseChanges = {
+        year: year.year,
+        course: course.course,
+        new: links.filter(file => file.status === 'new').map(file => file.localPath ?? file.url),
+        updated: links.filter(file => file.status === 'updated').map(file => file.localPath ?? file.url),
+        removed: course.stats.removed,
+        failed: links.filter(file => file.status === 'failed').map(file => file.url)
+      };
+      if (changes.new.length || changes.updated.length || changes.removed || changes.failed.length) {
+        courses.push(changes);
+      }
+    }
+  }
+  return { poll, startedAt: report.startedAt, finishedAt: new Date().toISOString(), courses, totals };
+}
+
+/** The entry of a poll that failed, so the changelog shows the gap. */
+export const failedChangelogEntry = (poll: number, startedAt: string, error: string): ChangelogEntry => ({
+  poll,
+  startedAt,
+  finishedAt: new Date().toISOString(),
+  courses: [],
+  totals: emptySyncStats(),
+  error
+});
+
+export const hasChanges = (entry: ChangelogEntry): boolean =>
+  entry.courses.some(course => course.new.length || course.updated.length || course.removed);
+
+/** One line per changed course, e.g. `2526/MATH1010: 2 new, 1 updated (notes/ch3.pdf, ...)`. */
+export function formatChangelogEntry(entry: ChangelogEntry): string {
+  if (entry.error) return `Poll failed: ${entry.error}`;
+  if (!entry.courses.length) return 'No changes.';
+  return entry.courses
+    .map(course => {
+      const counts = [
+        course.new.length ? `${course.new.length} new` : '',
+        course.updated.length ? `${course.updated.length} updated` : '',
+        course.removed ? `${course.removed} removed` : '',
+        course.failed.length ? `${course.failed.length} failed` : ''
+      ].filter(Boolean).join(', ');
+      const names = [...course.new, ...course.updated].map(p => path.posix.basename(p));
+      const shown = names.slice(0, 5).join(', ') + (names.length > 5 ? ', ...' : '');
+      return `${course.year}/${course.course}: ${counts}${shown ? ` (${shown})` : ''}`;
+    })
+    .join('\n');
+}
+
+export async function appendChangelog(reportDir: string, entry: ChangelogEntry): Promise<string> {
+  const changelogPath = path.join(reportDir, CHANGELOG_FILE_NAME);
+  await fs.promises.mkdir(reportDir, { recursive: true });
+  await fs.promises.appendFile(changelogPath, `${JSON.stringify(entry)}\n`, 'utf8');
+  return changelogPath;
+}
+
+/* ---------- notifiers ---------- */
+
+const log = createLogger('watch');
+
+const NOTIFY_TIMEOUT_MS = 30_000;
+
+/** Prints the entry as one JSON line; the rest of the log should go elsewhere. */
+const stdoutNotifier: Notifier = async entry => {
+  process.stdout.write(`${JSON.stringify({ type: 'cumatdl.changes', ...entry })}\n`);
+};
+
+const webhookNotifier = (url: string): Notifier => async entry => {
+  await axios.post(
+    url,
+    { type: 'cumatdl.changes', text: formatChangelogEntry(entry), ...entry },
+    { timeout: NOTIFY_TIMEOUT_MS }
+  );
+};
+
+/**
+ * Runs `command` through the shell with the entry as JSON on stdin and, for one-liners,
+ * the text summary in `CUMATDL_SUMMARY`.
+ */
+const commandNotifier = (command: string): Notifier => entry =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', 'inherit', 'inherit'],
+      env: { ...process.env, CUMATDL_SUMMARY: formatChangelogEntry(entry) }
+    });
+    const timer = setTimeout(() => child.kill(), NOTIFY_TIMEOUT_MS);
+    child.on('error', err => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on('exit', code => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`Notify command exited with ${code ?? 'a signal'}`));
+    });
+    child.stdin.on('error', () => {}); // commands that ignore stdin close it early
+    child.stdin.end(JSON.stringify(entry));
+  });
+
+/** `stdout`, an `http(s)://` webhook URL, or `cmd:<shell command>`. */
+export function createNotifier(spec: string): Notifier {
+  if (spec === 'stdout') return stdoutNotifier;
+  if (/^https?:\/\//i.test(spec)) return webhookNotifier(spec);
+  if (spec.startsWith('cmd:') && spec.length > 4) return commandNotifier(spec.slice(4));
+  throw new Error(`Unknown notify hook "${spec}" (use stdout, a webhook URL or cmd:<command>).`);
+}
+
+/** Hooks that fail are logged; one broken hook doesn't keep the others from running. */
+export async function notifyAll(notifiers: Notifier[], entry: ChangelogEntry): Promise<void> {
+  const results = await Promise.allSettled(notifiers.map(notify => notify(entry)));
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      log.status('FAIL', `notify: ${message}`, { error: message });
+    }
+  }
+}
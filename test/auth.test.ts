@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { authRuleFor, configureAuth } from '../src/auth';
+
+const SITE_ROOT = 'https://www.math.cuhk.edu.hk/course_builder/';
+
+describe('authRuleFor', () => {
+  it('keeps a rule without scope to the site root host', () => {
+    configureAuth([{ type: 'basic', username: 'guest', password: 'secret' }], SITE_ROOT, ['137.189.49.33']);
+    assert.ok(authRuleFor('https://www.math.cuhk.edu.hk/course_builder/2526/MATH1010/notes.pdf'));
+    assert.equal(authRuleFor('https://137.189.49.33/course_builder/2526/MATH1010/notes.pdf'), undefined);
+    assert.equal(authRuleFor('https://cdn.example.com/style.css'), undefined);
+  });
+
+  it('never applies a rule outside the site hosts', () => {
+    configureAuth(
+      [
+        { type: 'basic', host: 'staff.example.com', username: 'guest', password: 'secret' },
+        { type: 'basic', course: 'MATH*', username: 'guest', password: 'secret' }
+      ],
+      SITE_ROOT,
+      ['137.189.49.33']
+    );
+    assert.equal(authRuleFor('https://staff.example.com/~someone/'), undefined);
+    assert.equal(authRuleFor('https://staff.example.com/course_builder/2526/MATH1010/a.pdf'), undefined);
+    assert.equal(authRuleFor('https://137.189.49.33/course_builder/2526/MATH1010/a.pdf')?.course, 'MATH*');
+  });
+
+  it('matches course globs and URL prefixes across the courses alias', () => {
+    configureAuth(
+      [{ type: 'digest', urlPrefix: `${SITE_ROOT}2526/MATH4060/`, username: 'guest', password: 'secret' }],
+      SITE_ROOT
+    );
+    assert.ok(authRuleFor('https://www.math.cuhk.edu.hk/courses/2526/MATH4060/hw1.pdf'));
+    assert.equal(authRuleFor('https://www.math.cuhk.edu.hk/course_builder/2526/MATH4061/hw1.pdf'), undefined);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { matchCourses, matchYears, parseCliArgs, SelectionError } from '../src/cli';
+import { CourseChoice, YearChoice } from '../src/types';
+
+const course = (label: string): CourseChoice => ({ label, displayLabel: label, href: `https://example.com/${label}/` });
+const year = (seg: string): YearChoice => ({ label: seg, displayLabel: seg.replace(/^_/, ''), href: '', seg });
+
+const COURSES = ['MATH1010', 'MATH1510', 'MATH2050', 'STAT2001'].map(course);
+const YEARS = ['2526', '_2425', '_2324', '_1920'].map(year);
+
+describe('parseCliArgs', () => {
+  it('splits comma separated lists and keeps defaults', () => {
+    const options = parseCliArgs(['-y', '2425,2324', '--course', 'MATH10*', '-c', '3', '--include-ext', 'pdf, docx']);
+    assert.deepEqual(options.years, ['2425', '2324']);
+    assert.deepEqual(options.courses, ['MATH10*', '3']);
+    assert.deepEqual(options.includeExtensions, ['pdf', 'docx']);
+    assert.equal(options.format, 'table');
+    assert.equal(options.all, false);
+    assert.deepEqual(options.notify, []);
+  });
+
+  it('reports unknown flags as selection errors', () => {
+    assert.throws(() => parseCliArgs(['--nope']), SelectionError);
+    assert.throws(() => parseCliArgs(['stray']), SelectionError);
+  });
+
+  it('rejects flags that contradict each other', () => {
+    for (const argv of [
+      ['--all', '--course', 'MATH1010'],
+      ['--watch', '--dry-run', '--all'],
+      ['--watch'],
+      ['--resume', '--year', '2425'],
+      ['--resume', '--verify'],
+      ['--quiet', '--log-level', 'debug'],
+      ['--repair'],
+      ['--verify', '--all'],
+      ['--dry-run', '--format', 'xml']
+    ]) {
+      assert.throws(() => parseCliArgs(argv), SelectionError, argv.join(' '));
+    }
+  });
+});
+
+describe('matchCourses', () => {
+  it('takes indices, ranges, codes and globs, in listing order', () => {
+    const labels = (tokens: string[]): string[] => matchCourses(tokens, COURSES).map(c => c.label);
+    assert.deepEqual(labels(['4', '1-2']), ['MATH1010', 'MATH1510', 'STAT2001']);
+    assert.deepEqual(labels(['math2050']), ['MATH2050']);
+    assert.deepEqual(labels(['MATH1*', 'MATH1010']), ['MATH1010', 'MATH1510']);
+    assert.deepEqual(labels(['STAT200?']), ['STAT2001']);
+  });
+
+  it('rejects codes and indices that select nothing', () => {
+    assert.throws(() => matchCourses(['PHYS1001'], COURSES), /No course matches "PHYS1001"/);
+    assert.throws(() => matchCourses(['5'], COURSES), SelectionError);
+  });
+
+  it('skips unmatched codes when allowed', () => {
+    assert.deepEqual(matchCourses(['PHYS1001', 'STAT*'], COURSES, true).map(c => c.label), ['STAT2001']);
+  });
+});
+
+describe('matchYears', () => {
+  it('matches folder names and display labels', () => {
+    assert.deepEqual(matchYears(['_2425', '2324'], YEARS).map(y => y.seg), ['_2425', '_2324']);
+  });
+
+  it('expands all and ranges oldest first, without duplicates', () => {
+    assert.deepEqual(matchYears(['all'], YEARS).map(y => y.seg), ['_1920', '_2324', '_2425', '2526']);
+    assert.deepEqual(matchYears(['2526-2324', '_2425'], YEARS).map(y => y.seg), ['_2324', '_2425', '2526']);
+  });
+
+  it('rejects unknown years and empty ranges', () => {
+    assert.throws(() => matchYears(['2021'], YEARS), /Unknown year "2021"/);
+    assert.throws(() => matchYears(['2021-2122'], YEARS), /No year folder within/);
+  });
+});
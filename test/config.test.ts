@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { parseCliArgs } from '../src/cli';
+import { ConfigError, loadConfig } from '../src/config';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cumatdl-config-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function configFile(name: string, content: object): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, JSON.stringify(content), 'utf8');
+  return filePath;
+}
+
+describe('loadConfig', () => {
+  const file = configFile('layers.json', {
+    concurrency: 2,
+    retries: 5,
+    engine: 'auto',
+    downloadRoot: 'from-file',
+    filters: { excludeExtensions: ['mp4'], courses: { 'MATH*': { maxSize: '10MB' } } }
+  });
+
+  it('layers the file under the environment under the flags', () => {
+    const env = { CUMATDL_RETRIES: '7', CUMATDL_ENGINE: 'browser', CUMATDL_CONCURRENCY: '6' };
+    const config = loadConfig(parseCliArgs(['--config', file, '--concurrency', '3']), env);
+    assert.equal(config.concurrency, 3);
+    assert.equal(config.retries, 7);
+    assert.equal(config.engine, 'browser');
+    assert.equal(config.crawlDepth, 2);
+  });
+
+  it('resolves directories in the file against the file', () => {
+    const config = loadConfig(parseCliArgs(['--config', file]), {});
+    assert.equal(config.downloadRoot, path.join(dir, 'from-file'));
+    assert.equal(config.reportDir, path.join(dir, 'from-file', 'reports'));
+  });
+
+  it('lets filter flags replace the top-level rules only', () => {
+    const config = loadConfig(parseCliArgs(['--config', file, '--exclude-ext', 'zip']), {});
+    assert.deepEqual(config.filters.excludeExtensions, ['zip']);
+    assert.equal(config.filters.courses?.['MATH*'].maxSize, 10 * 1024 * 1024);
+  });
+
+  it('derives the hosts from the site root', () => {
+    const config = loadConfig(parseCliArgs(['--config', file, '--site-root', 'http://localhost:8080/mirror']), {});
+    assert.equal(config.siteRoot, 'http://localhost:8080/mirror/');
+    assert.equal(config.siteHost, 'localhost');
+    assert.equal(config.siteIp, undefined);
+    assert.deepEqual(config.allowedHosts, ['localhost']);
+  });
+
+  it('names the layer a bad value came from', () => {
+    assert.throws(() => loadConfig(parseCliArgs(['--config', file]), { CUMATDL_RETRIES: 'many' }), /CUMATDL_RETRIES/);
+    assert.throws(() => loadConfig(parseCliArgs(['--config', configFile('bad.json', { colour: 'red' })]), {}), ConfigError);
+    assert.throws(() => loadConfig(parseCliArgs(['--config', path.join(dir, 'missing.json')]), {}), /not found/);
+  });
+
+  it('takes passwords from the variable a rule names', () => {
+    const auth = configFile('auth.json', { auth: [{ type: 'basic', course: 'MATH*', username: 'u', passwordEnv: 'PW' }] });
+    assert.equal(loadConfig(parseCliArgs(['--config', auth]), { PW: 'secret' }).auth[0].password, 'secret');
+  });
+});
@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, beforeEach, describe, it } from 'node:test';
+
+import { downloadFile, PART_SUFFIX } from '../src/download';
+
+const BODY = Buffer.from('0123456789'.repeat(100));
+const ETAG = '"v1"';
+const sha256 = (data: Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+interface Served {
+  body: Buffer;
+  etag: string;
+  /** Answers Range requests with 416 instead of the range. */
+  refuseRanges?: boolean;
+  /** Ignores If-None-Match. */
+  ignoreConditional?: boolean;
+}
+
+let served: Served;
+let requests: http.IncomingHttpHeaders[];
+let baseUrl: string;
+let root: string;
+
+const server = http.createServer((req, res) => {
+  requests.push(req.headers);
+  const { body, etag } = served;
+  const range = req.headers.range?.match(/^bytes=(\d+)-$/);
+  if (!served.ignoreConditional && req.headers['if-none-match'] === etag) {
+    res.writeHead(304, { ETag: etag }).end();
+  } else if (range && served.refuseRanges) {
+    res.writeHead(416, { 'Content-Range': `bytes */${body.length}` }).end();
+  } else if (range && req.headers['if-range'] === etag) {
+    const start = Number(range[1]);
+    res.writeHead(206, {
+      ETag: etag,
+      'Content-Range': `bytes ${start}-${body.length - 1}/${body.length}`,
+      'Content-Length': body.length - start
+    });
+    res.end(body.subarray(start));
+  } else {
+    res.writeHead(200, { ETag: etag, 'Content-Length': body.length, 'Content-Type': 'application/pdf' });
+    res.end(body);
+  }
+});
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'cumatdl-download-'));
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  served = { body: BODY, etag: ETAG };
+  requests = [];
+});
+
+/** Leaves the first `bytes` of the body in a `.part` file, as a stopped run would. */
+function leavePart(localPath: string, url: string, bytes: number, validator = ETAG): void {
+  fs.mkdirSync(path.dirname(localPath), { recursive: true });
+  fs.writeFileSync(`${localPath}${PART_SUFFIX}`, BODY.subarray(0, bytes));
+  fs.writeFileSync(`${localPath}${PART_SUFFIX}.json`, JSON.stringify({ url, validator }));
+}
+
+const leftovers = (localPath: string): string[] =>
+  fs.readdirSync(path.dirname(localPath)).filter(name => name.startsWith(`${path.basename(localPath)}${PART_SUFFIX}`));
+
+describe('downloadFile', () => {
+  it('downloads a new file and records it', async () => {
+    const url = `${baseUrl}/new.pdf`;
+    const localPath = path.join(root, 'course', 'new.pdf');
+    const result = await downloadFile(url, localPath, { root });
+    assert.equal(result.status, 'new');
+    assert.deepEqual(fs.readFileSync(localPath), BODY);
+    assert.deepEqual(leftovers(localPath), []);
+    assert.equal(result.entry.path, 'course/new.pdf');
+    assert.equal(result.entry.size, BODY.length);
+    assert.equal(result.entry.sha256, sha256(BODY));
+    assert.equal(result.entry.etag, ETAG);
+  });
+
+  it('asks conditionally for a file the manifest knows and keeps it on 304', async () => {
+    const url = `${baseUrl}/same.pdf`;
+    const localPath = path.join(root, 'course', 'same.pdf');
+    const first = await downloadFile(url, localPath, { root });
+    const second = await downloadFile(url, localPath, { root, previous: first.entry });
+    assert.equal(second.status, 'unchanged');
+    assert.equal(requests[1]['if-none-match'], ETAG);
+    assert.equal(second.entry.sha256, first.entry.sha256);
+  });
+
+  it('resumes a .part file with Range and If-Range', async () => {
+    const url = `${baseUrl}/resumed.pdf`;
+    const localPath = path.join(root, 'course', 'resumed.pdf');
+    leavePart(localPath, url, 400);
+    const received: number[] = [];
+    const result = await downloadFile(url, localPath, { root, onBytes: bytes => received.push(bytes) });
+    assert.equal(requests[0].range, 'bytes=400-');
+    assert.equal(requests[0]['if-range'], ETAG);
+    assert.equal(received.reduce((sum, bytes) => sum + bytes, 0), BODY.length - 400);
+    assert.deepEqual(fs.readFileSync(localPath), BODY);
+    assert.equal(result.entry.sha256, sha256(BODY));
+    assert.deepEqual(leftovers(localPath), []);
+  });
+
+  it('starts over when the file changed since the part was written', async () => {
+    const url = `${baseUrl}/changed.pdf`;
+    const localPath = path.join(root, 'course', 'changed.pdf');
+    leavePart(localPath, url, 400);
+    served = { body: Buffer.from('a new version'), etag: '"v2"' };
+    const result = await downloadFile(url, localPath, { root });
+    assert.equal(requests.length, 1);
+    assert.deepEqual(fs.readFileSync(localPath), served.body);
+    assert.equal(result.entry.size, served.body.length);
+  });
+
+  it('starts over without Range after a 416', async () => {
+    const url = `${baseUrl}/refused.pdf`;
+    const localPath = path.join(root, 'course', 'refused.pdf');
+    leavePart(localPath, url, 400);
+    served.refuseRanges = true;
+    const result = await downloadFile(url, localPath, { root });
+    assert.equal(requests.length, 2);
+    assert.equal(requests[0].range, 'bytes=400-');
+    assert.equal(requests[1].range, undefined);
+    assert.deepEqual(fs.readFileSync(localPath), BODY);
+    assert.equal(result.status, 'new');
+    assert.deepEqual(leftovers(localPath), []);
+  });
+
+  it('compares a rewritten file by what the server sent for it', async () => {
+    const url = `${baseUrl}/style.css`;
+    const localPath = path.join(root, 'course', 'style.css');
+    const first = await downloadFile(url, localPath, { root });
+    // what localizeStylesheet leaves behind
+    const rewritten = Buffer.from('body { background: url(img/bg.png) }');
+    fs.writeFileSync(localPath, rewritten);
+    const previous = {
+      ...first.entry,
+      size: rewritten.length,
+      sha256: sha256(rewritten),
+      remoteSize: first.entry.size,
+      remoteSha256: first.entry.sha256,
+      assets: [`${baseUrl}/img/bg.png`]
+    };
+    served.ignoreConditional = true;
+    const second = await downloadFile(url, localPath, { root, previous });
+    assert.equal(second.status, 'unchanged');
+    assert.deepEqual(fs.readFileSync(localPath), rewritten);
+    assert.deepEqual(second.entry.assets, previous.assets);
+    assert.equal(second.entry.sha256, previous.sha256);
+    assert.deepEqual(leftovers(localPath), []);
+
+    served.body = Buffer.from('body { color: red }');
+    const third = await downloadFile(url, localPath, { root, previous: second.entry });
+    assert.equal(third.status, 'updated');
+    assert.deepEqual(fs.readFileSync(localPath), served.body);
+    assert.equal(third.entry.assets, undefined);
+  });
+
+  it('ignores a part left by another URL', async () => {
+    const url = `${baseUrl}/mine.pdf`;
+    const localPath = path.join(root, 'course', 'mine.pdf');
+    leavePart(localPath, `${baseUrl}/theirs.pdf`, 400);
+    await downloadFile(url, localPath, { root });
+    assert.equal(requests[0].range, undefined);
+    assert.deepEqual(fs.readFileSync(localPath), BODY);
+  });
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { excludedBy, FileTooLargeError, namePattern, parseSize, rulesForCourse, sizeRule } from '../src/filters';
+
+const file = (name: string): string => `https://www.math.cuhk.edu.hk/course_builder/2526/MATH1010/${name}`;
+
+describe('parseSize', () => {
+  it('reads plain bytes and binary units', () => {
+    assert.equal(parseSize('5000'), 5000);
+    assert.equal(parseSize('200MB'), 200 * 1024 ** 2);
+    assert.equal(parseSize(' 1.5 g '), 1.5 * 1024 ** 3);
+    assert.equal(parseSize('10kb'), 10 * 1024);
+    assert.equal(parseSize(42), 42);
+  });
+
+  it('returns null for anything else', () => {
+    for (const value of ['', 'big', '-1MB', '10TB', -5, Infinity]) assert.equal(parseSize(value), null, String(value));
+  });
+});
+
+describe('namePattern', () => {
+  it('treats slashes as a regular expression and anything else as a glob', () => {
+    assert.ok(namePattern('/^week\\d+\\.pdf$/').test('week12.pdf'));
+    assert.ok(!namePattern('/^week\\d+$/').test('Week1'));
+    assert.ok(namePattern('/^week\\d+$/i').test('Week1'));
+    assert.ok(namePattern('Week*.PDF').test('week 3.pdf'));
+    assert.ok(!namePattern('week?.pdf').test('week10.pdf'));
+  });
+});
+
+describe('rulesForCourse', () => {
+  const filters = {
+    excludeExtensions: ['mp4'],
+    maxSize: 100,
+    courses: { 'MATH1*': { maxSize: 500 }, 'MATH1010*': { excludeExtensions: [] } }
+  };
+
+  it('lays every matching course entry over the top-level rules', () => {
+    assert.deepEqual(rulesForCourse(filters, 'MATH1010A'), { excludeExtensions: [], maxSize: 500 });
+    assert.deepEqual(rulesForCourse(filters, 'math1510'), { excludeExtensions: ['mp4'], maxSize: 500 });
+    assert.deepEqual(rulesForCourse(filters, 'STAT2001'), { excludeExtensions: ['mp4'], maxSize: 100 });
+  });
+});
+
+describe('excludedBy', () => {
+  it('allows everything without rules', () => {
+    assert.equal(excludedBy(file('lecture.mp4'), {}), null);
+  });
+
+  it('checks extensions without regard to case or dots', () => {
+    assert.equal(excludedBy(file('a.PDF'), { includeExtensions: ['.pdf'] }), null);
+    assert.equal(excludedBy(file('a.docx'), { includeExtensions: ['pdf'] }), 'includeExtensions: docx not listed');
+    assert.equal(excludedBy(file('README'), { includeExtensions: ['pdf'] }), 'includeExtensions: (none) not listed');
+    assert.equal(excludedBy(file('talk.MP4'), { excludeExtensions: ['mp4'] }), 'excludeExtensions: mp4');
+  });
+
+  it('matches name patterns against the decoded file name', () => {
+    const rules = { include: ['筆記*', '/^hw\\d+/'], exclude: ['*draft*'] };
+    assert.equal(excludedBy(file('%E7%AD%86%E8%A8%98%201.pdf'), rules), null);
+    assert.equal(excludedBy(file('hw3.pdf?download=1'), rules), null);
+    assert.equal(excludedBy(file('slides.pdf'), rules), 'include: matches none of 筆記*, /^hw\\d+/');
+    assert.equal(excludedBy(file('hw3-draft.pdf'), rules), 'exclude: *draft*');
+  });
+});
+
+describe('FileTooLargeError', () => {
+  it('names the limit and the size when known', () => {
+    assert.equal(new FileTooLargeError(3 * 1024 ** 2, 1024 ** 2).message, 'File larger than 1.0 MB (3.0 MB)');
+    assert.equal(new FileTooLargeError(null, 1024).message, 'File larger than 1.0 KB');
+    assert.equal(sizeRule(1024 ** 2), 'maxSize: over 1.0 MB');
+  });
+});
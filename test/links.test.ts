@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+
+import { LinkTarget, rewritePageLinks } from '../src/links';
+
+const COURSE = 'https://www.math.cuhk.edu.hk/course_builder/2526/MATH1010/';
+const courseDir = path.join('/dl', '2526', 'MATH1010');
+const htmlPath = path.join(courseDir, 'index.html');
+const stubPath = path.join(courseDir, '_missing.html');
+
+const anchor = (url: string, text = 'link'): string => `<a href="${url}" data-cumatdl-link="${url}">${text}</a>`;
+
+function rewrite(html: string, targets: Record<string, LinkTarget>): { html: string; missing: number } {
+  return rewritePageLinks(html, htmlPath, stubPath, url => targets[url] ?? null);
+}
+
+describe('rewritePageLinks', () => {
+  it('points tagged anchors at the local copy, keeping the fragment', () => {
+    const url = `${COURSE}notes/ch1.pdf`;
+    const { html, missing } = rewrite(`<p>${anchor(`${url}#page=3`)}</p>`, {
+      [url]: { localPath: path.join(courseDir, 'notes', 'ch1.pdf'), missing: false }
+    });
+    assert.equal(html, '<p><a href="notes/ch1.pdf#page=3">link</a></p>');
+    assert.equal(missing, 0);
+  });
+
+  it('encodes local paths and reaches across folders', () => {
+    const url = `${COURSE}%E7%AD%86%E8%A8%98.pdf`;
+    const { html } = rewrite(anchor(url), {
+      [url]: { localPath: path.join('/dl', '2526', 'shared', '筆記 1.pdf'), missing: false }
+    });
+    assert.equal(html, `<a href="../shared/${encodeURIComponent('筆記 1.pdf')}">link</a>`);
+  });
+
+  it('sends failed downloads to the stub and styles them once', () => {
+    const [a, b] = [`${COURSE}a.pdf`, `${COURSE}b.pdf?x=1&y=2`];
+    const page = `<html><head></head><body>${anchor(a)}${anchor(b.replace('&', '&amp;'))}</body></html>`;
+    const { html, missing } = rewrite(page, {
+      [a]: { localPath: path.join(courseDir, 'a.pdf'), missing: true },
+      [b]: { localPath: path.join(courseDir, 'b.pdf'), missing: true }
+    });
+    assert.equal(missing, 2);
+    assert.ok(html.includes(`href="_missing.html#${encodeURIComponent(a)}"`));
+    assert.ok(html.includes(`title="Not downloaded: ${b.replace('&', '&amp;')}"`));
+    assert.equal(html.match(/data-cumatdl-missing=""/g)?.length, 2);
+    assert.equal(html.match(/<style>/g)?.length, 1);
+    assert.ok(html.indexOf('<style>') < html.indexOf('</head>'));
+  });
+
+  it('leaves anchors it has no target for with their href, and drops the tag', () => {
+    const url = `${COURSE}elsewhere.html`;
+    const { html, missing } = rewrite(`${anchor(url)}<a href="plain.html">plain</a>`, {});
+    assert.equal(html, `<a href="${url}">link</a><a href="plain.html">plain</a>`);
+    assert.equal(missing, 0);
+  });
+
+  it('runs again without changing a page it already rewrote', () => {
+    const url = `${COURSE}a.pdf`;
+    const targets = { [url]: { localPath: path.join(courseDir, 'a.pdf'), missing: false } };
+    const once = rewrite(anchor(url), targets).html;
+    assert.equal(rewrite(once, targets).html, once);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { CourseManifest, loadManifest, MANIFEST_FILE_NAME, ManifestEntry, markRemoved, saveManifest } from '../src/manifest';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cumatdl-manifest-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const entry = (name: string): ManifestEntry => ({
+  url: `https://example.com/MATH1010/${name}`,
+  path: `2526/MATH1010/${name}`,
+  size: 1,
+  sha256: '00',
+  syncedAt: '2025-10-01T00:00:00.000Z'
+});
+
+const manifestOf = (...entries: ManifestEntry[]): CourseManifest => ({
+  version: 1,
+  course: 'MATH1010',
+  updatedAt: '2025-10-01T00:00:00.000Z',
+  files: Object.fromEntries(entries.map(e => [e.url, e]))
+});
+
+describe('loadManifest and saveManifest', () => {
+  it('round-trips a manifest without leaving the temporary file', async () => {
+    const courseDir = path.join(dir, 'round-trip');
+    const saved = manifestOf(entry('a.pdf'));
+    await saveManifest(courseDir, saved);
+    assert.deepEqual(fs.readdirSync(courseDir), [MANIFEST_FILE_NAME]);
+    assert.deepEqual(await loadManifest(courseDir, 'MATH1010'), saved);
+  });
+
+  it('starts empty when the manifest is missing or corrupt', async () => {
+    const courseDir = path.join(dir, 'corrupt');
+    assert.deepEqual((await loadManifest(courseDir, 'MATH1010')).files, {});
+    fs.mkdirSync(courseDir);
+    fs.writeFileSync(path.join(courseDir, MANIFEST_FILE_NAME), '{"version": 1, "fil', 'utf8');
+    const manifest = await loadManifest(courseDir, 'MATH1010');
+    assert.equal(manifest.course, 'MATH1010');
+    assert.deepEqual(manifest.files, {});
+  });
+});
+
+describe('markRemoved', () => {
+  it('flags vanished URLs once and clears the flag when they come back', () => {
+    const [a, b] = [entry('a.pdf'), entry('b.pdf')];
+    const manifest = manifestOf(a, b);
+
+    assert.equal(markRemoved(manifest, [a.url]), 1);
+    const removedAt = manifest.files[b.url].removedAt;
+    assert.ok(removedAt);
+    assert.equal(manifest.files[a.url].removedAt, undefined);
+
+    assert.equal(markRemoved(manifest, [a.url]), 0);
+    assert.equal(manifest.files[b.url].removedAt, removedAt);
+
+    assert.equal(markRemoved(manifest, [a.url, b.url]), 0);
+    assert.equal(manifest.files[b.url].removedAt, undefined);
+  });
+});
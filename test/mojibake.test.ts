@@ -0,0 +1,111 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import iconv from 'iconv-lite';
+
+import { repairMojibake, setMojibakeOverrides } from '../src/mojibake';
+
+/** UTF-8 text read as Big5-HKSCS the way iconv-lite, Python and Java do it: one byte per U+FFFD. */
+const asBig5 = (text: string): string => iconv.decode(Buffer.from(text, 'utf8'), 'big5hkscs');
+
+/**
+ * The same misreading as a browser does it (WHATWG Encoding): an unmapped lead byte takes its
+ * trail byte down with it, so one U+FFFD can stand for two bytes.
+ */
+function asBig5InBrowser(text: string): string {
+  const bytes = Buffer.from(text, 'utf8');
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    if (byte < 0x80) {
+      out += String.fromCharCode(byte);
+    } else if (byte === 0x80 || byte === 0xff || i + 1 === bytes.length) {
+      out += '�';
+    } else if (bytes[i + 1] < 0x80) {
+      // an ASCII trail is never swallowed
+      out += '�';
+    } else {
+      const char = iconv.decode(bytes.subarray(i, i + 2), 'big5hkscs');
+      out += char.includes('�') ? '�' : char;
+      i++;
+    }
+  }
+  return out;
+}
+
+// the entries of stringmap.json that are whole strings rather than pieces cut out of one;
+// the vocabulary isn't built from them, so the ones it has no word for are left to the map
+const SAMPLES = ['筆記', '2020年2月', '2018年10月', '年', '日', '（M'];
+const LEFT_TO_STRING_MAP = ['分类模型', '支持向量机', '影像', '副本'];
+
+// too many bytes lost in a row for any one reading to win
+const AMBIGUOUS_IN_BROWSER = ['日', '（M'];
+
+describe('repairMojibake', () => {
+  for (const text of SAMPLES) {
+    it(`repairs ${text} read as Big5`, () => {
+      const unresolved = new Set<string>();
+      assert.equal(repairMojibake(asBig5(text), unresolved), text);
+      assert.deepEqual([...unresolved], []);
+    });
+
+    it(`repairs ${text} read as Big5 by a browser`, () => {
+      const broken = asBig5InBrowser(text);
+      const unresolved = new Set<string>();
+      if (AMBIGUOUS_IN_BROWSER.includes(text)) {
+        assert.equal(repairMojibake(broken, unresolved), broken);
+        assert.deepEqual([...unresolved], [broken]);
+      } else {
+        assert.equal(repairMojibake(broken, unresolved), text);
+      }
+    });
+  }
+
+  for (const text of LEFT_TO_STRING_MAP) {
+    it(`reports ${text} read as Big5 and takes the string map's word for it`, () => {
+      const broken = asBig5(text);
+      const unresolved = new Set<string>();
+      assert.equal(repairMojibake(broken, unresolved), broken);
+      assert.deepEqual([...unresolved], [broken]);
+      setMojibakeOverrides({ [broken]: text });
+      try {
+        assert.equal(repairMojibake(broken), text);
+      } finally {
+        setMojibakeOverrides({});
+      }
+    });
+  }
+
+  it('gives up on long runs of lost bytes', () => {
+    const broken = asBig5('掃描的文件');
+    const unresolved = new Set<string>();
+    assert.equal(repairMojibake(broken, unresolved), broken);
+    assert.deepEqual([...unresolved], [broken]);
+  });
+
+  it('reports unresolved fragments again when the repair comes from the cache', () => {
+    const broken = `x ${asBig5('副本')}`;
+    for (let i = 0; i < 2; i++) {
+      const unresolved = new Set<string>();
+      repairMojibake(broken, unresolved);
+      assert.equal(unresolved.size, 1);
+    }
+  });
+
+  it('leaves fragments it cannot decide on alone and reports them', () => {
+    for (const broken of ['�䏭', '嚗�']) {
+      const unresolved = new Set<string>();
+      assert.equal(repairMojibake(`a ${broken} b`, unresolved), `a ${broken} b`);
+      assert.deepEqual([...unresolved], [broken]);
+    }
+  });
+
+  it('keeps text that was never broken', () => {
+    for (const text of ['筆記 Chapter 1', 'Überblick', '第3章 向量']) assert.equal(repairMojibake(text), text);
+  });
+
+  it('repairs UTF-8 read as Latin-1 and double percent-encoding', () => {
+    assert.equal(repairMojibake('cafÃ©'), 'café');
+    assert.equal(repairMojibake('%25E7%25AD%2586%25E8%25A8%2598.pdf'), '%E7%AD%86%E8%A8%98.pdf');
+  });
+});
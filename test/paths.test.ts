@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { assertInside, localPathFromUrl, mirroredPath, PATH_MAP_FILE_NAME, safeSegment, savePathMap } from '../src/paths';
+
+const SITE = 'https://www.math.cuhk.edu.hk/course_builder/2526/MATH1010/';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'cumatdl-paths-'));
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+describe('safeSegment', () => {
+  it('replaces characters Windows rejects and trailing dots and spaces', () => {
+    assert.equal(safeSegment('a<b>:c"d|e?f*g'), 'a_b__c_d_e_f_g');
+    assert.equal(safeSegment('notes. '), 'notes');
+    assert.equal(safeSegment('a\u0001b'), 'a_b');
+  });
+
+  it('never yields . or .. or a device name', () => {
+    assert.equal(safeSegment('.'), '_');
+    assert.equal(safeSegment('..'), '__');
+    assert.equal(safeSegment('CON'), '_CON');
+    assert.equal(safeSegment('lpt1.txt'), '_lpt1.txt');
+  });
+
+  it('shortens long names but keeps the extension and tells them apart', () => {
+    const long = (last: string): string => `${'筆記'.repeat(60)}${last}.pdf`;
+    const [a, b] = [safeSegment(long('a')), safeSegment(long('b'))];
+    assert.ok(Buffer.byteLength(a) <= 200, `${Buffer.byteLength(a)} bytes`);
+    assert.match(a, /~[0-9a-f]{8}\.pdf$/);
+    assert.notEqual(a, b);
+  });
+
+  it('keeps ordinary names as they are', () => {
+    assert.equal(safeSegment('Lecture 1 (v2).pdf'), 'Lecture 1 (v2).pdf');
+  });
+});
+
+describe('assertInside', () => {
+  it('accepts the root and what lies below it', () => {
+    assert.equal(assertInside(root, root), path.resolve(root));
+    assert.equal(assertInside(root, path.join(root, 'a', 'b.pdf')), path.join(path.resolve(root), 'a', 'b.pdf'));
+  });
+
+  it('refuses anything outside, including siblings sharing a prefix', () => {
+    assert.throws(() => assertInside(root, path.join(root, '..', 'elsewhere')), /outside the download root/);
+    assert.throws(() => assertInside(root, `${root}-sibling/file`), /outside the download root/);
+  });
+});
+
+describe('localPathFromUrl', () => {
+  it('decodes segments and keeps traversal inside the root', () => {
+    assert.equal(localPathFromUrl(`${SITE}%E7%AD%86%E8%A8%98/a%3Fb.pdf`, root), path.join(root, '2526', 'MATH1010', '筆記', 'a_b.pdf'));
+    assert.equal(localPathFromUrl(`${SITE}..%2F..%2F..%2Fx.pdf`, root), path.join(root, '2526', 'MATH1010', '.._.._.._x.pdf'));
+  });
+
+  it('gives URLs that differ only by case their own files, for good', async () => {
+    const upper = localPathFromUrl(`${SITE}Notes.PDF`, root);
+    const lower = localPathFromUrl(`${SITE}notes.pdf`, root);
+    assert.equal(upper, path.join(root, '2526', 'MATH1010', 'Notes.PDF'));
+    assert.match(path.basename(lower), /^notes~[0-9a-f]{8}\.pdf$/);
+    assert.equal(localPathFromUrl(`${SITE}notes.pdf`, root), lower);
+
+    await savePathMap(root);
+    const saved = JSON.parse(fs.readFileSync(path.join(root, PATH_MAP_FILE_NAME), 'utf8')) as { paths: Record<string, string> };
+    assert.equal(saved.paths['/2526/MATH1010/notes.pdf'], path.relative(root, lower).split(path.sep).join('/'));
+  });
+
+  it('mirrors other hosts below the given folder', () => {
+    const assets = path.join(root, '2526', 'MATH1010', '_assets', 'cdn.example.com');
+    assert.equal(mirroredPath('https://cdn.example.com/css/', assets, root), path.join(assets, 'css', 'index.html'));
+  });
+});
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createDownloadPool, isRetryableError, sleep, withRetry } from '../src/pool';
+
+const reset = (): Error => Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+
+describe('createDownloadPool', () => {
+  it('never runs more tasks than its concurrency and hands slots over in order', async () => {
+    const pool = createDownloadPool({ concurrency: 2, perHostRate: 0 });
+    let running = 0;
+    let peak = 0;
+    const started: number[] = [];
+    const tasks = [0, 1, 2, 3, 4].map(i =>
+      pool.run('example.com', async () => {
+        started.push(i);
+        running += 1;
+        peak = Math.max(peak, running);
+        await sleep(5);
+        running -= 1;
+        return i;
+      })
+    );
+    assert.deepEqual(pool.stats(), { active: 2, queued: 3, bytesPerSecond: 0 });
+    assert.deepEqual(await Promise.all(tasks), [0, 1, 2, 3, 4]);
+    assert.equal(peak, 2);
+    assert.deepEqual(started, [0, 1, 2, 3, 4]);
+    assert.equal(pool.stats().active, 0);
+  });
+
+  it('frees the slot of a task that failed', async () => {
+    const pool = createDownloadPool({ concurrency: 1, perHostRate: 0 });
+    const failed = pool.run('example.com', async () => {
+      throw new Error('boom');
+    });
+    const next = pool.run('example.com', async () => 'next');
+    await assert.rejects(failed, /boom/);
+    assert.equal(await next, 'next');
+    assert.equal(pool.stats().active, 0);
+  });
+
+  it('spaces request starts per host', async () => {
+    const pool = createDownloadPool({ concurrency: 4, perHostRate: 50 });
+    const startedAt: Record<string, number[]> = { a: [], b: [] };
+    const begin = Date.now();
+    await Promise.all(
+      ['a', 'a', 'a', 'b'].map(host => pool.run(host, async () => void startedAt[host].push(Date.now() - begin)))
+    );
+    // 50 per second is one start every 20ms; timers may fire a little early
+    assert.ok(startedAt.a[2] >= 35, `third start after ${startedAt.a[2]}ms`);
+    assert.ok(startedAt.b[0] < 15, `other host waited ${startedAt.b[0]}ms`);
+  });
+
+  it('counts the bytes tasks report', async () => {
+    const pool = createDownloadPool({ concurrency: 1, perHostRate: 0 });
+    await pool.run('example.com', async onBytes => onBytes(10_000));
+    assert.equal(pool.stats().bytesPerSecond, 2_000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries retryable errors until one attempt succeeds', async () => {
+    const retries: number[] = [];
+    let calls = 0;
+    const result = await withRetry(
+      async () => {
+        calls += 1;
+        if (calls < 3) throw reset();
+        return 'ok';
+      },
+      { retries: 3, baseDelayMs: 1, onRetry: attempt => retries.push(attempt) }
+    );
+    assert.equal(result, 'ok');
+    assert.deepEqual(retries, [1, 2]);
+  });
+
+  it('gives up after the configured retries', async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetry(async () => {
+        calls += 1;
+        throw reset();
+      }, { retries: 2, baseDelayMs: 1 }),
+      /socket hang up/
+    );
+    assert.equal(calls, 3);
+  });
+
+  it('throws other errors at once', async () => {
+    let calls = 0;
+    await assert.rejects(
+      withRetry(async () => {
+        calls += 1;
+        throw new Error('Unexpected 304 for an unconditional request');
+      }, { retries: 3, baseDelayMs: 1 })
+    );
+    assert.equal(calls, 1);
+  });
+
+  it('stops waiting for the next attempt once aborted', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    let calls = 0;
+    await assert.rejects(
+      withRetry(async () => {
+        calls += 1;
+        throw reset();
+      }, { retries: 3, baseDelayMs: 60_000, signal: controller.signal, onRetry: () => controller.abort() })
+    );
+    assert.equal(calls, 2);
+    assert.ok(Date.now() - started < 1_000);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries dropped connections but not other errors', () => {
+    assert.equal(isRetryableError(reset()), true);
+    assert.equal(isRetryableError(Object.assign(new Error('closed'), { code: 'ERR_STREAM_PREMATURE_CLOSE' })), true);
+    assert.equal(isRetryableError(new Error('no')), false);
+    assert.equal(isRetryableError(null), false);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import { authRuleFor, configureAuth } from '../src/auth';
+import { isInCourseScope, pageKey } from '../src/crawl';
+import { configureSitePaths, DEFAULT_SITE_ROOT, localPathFromUrl } from '../src/paths';
+import { alternateIndexUrls } from '../src/snapshots';
+
+const SITE_ROOT = 'http://localhost:8080/mirror/';
+const COURSE = 'http://localhost:8080/mirror/2526/MATH1010/';
+
+describe('a site root other than the default', () => {
+  let root: string;
+  before(() => {
+    configureSitePaths(SITE_ROOT);
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cumatdl-site-'));
+  });
+  after(() => {
+    configureSitePaths(DEFAULT_SITE_ROOT);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('saves files under <year>/<course> like the default site', () => {
+    assert.equal(localPathFromUrl(`${COURSE}notes/ch1.pdf`, root), path.join(root, '2526', 'MATH1010', 'notes', 'ch1.pdf'));
+    assert.equal(localPathFromUrl('http://localhost:8080/courses/2526/MATH1010/notes/ch1.pdf', root), path.join(root, '2526', 'MATH1010', 'notes', 'ch1.pdf'));
+  });
+
+  it('keeps pages of the course in scope', () => {
+    assert.ok(isInCourseScope(`${COURSE}week1/index.html`, COURSE));
+    assert.ok(isInCourseScope('http://localhost:8080/courses/2526/MATH1010/week1/', COURSE));
+    assert.ok(!isInCourseScope('http://localhost:8080/mirror/2526/MATH2020/', COURSE));
+    assert.ok(!isInCourseScope('http://localhost:8080/course_builder/2526/MATH1010/', COURSE));
+  });
+
+  it('folds the alias into the site root for page identity', () => {
+    assert.equal(pageKey('http://localhost:8080/courses/2526/MATH1010/a.html?x=1#top'), `${COURSE}a.html`);
+  });
+
+  it('finds backups of the index through the alias', () => {
+    const links = ['http://localhost:8080/courses/2526/MATH1010/index-before_block.html', `${COURSE}week1/index-old.html`];
+    assert.deepEqual(alternateIndexUrls(links, COURSE), [links[0]]);
+  });
+
+  it('matches auth rules by course folder', () => {
+    configureAuth([{ type: 'basic', course: 'MATH1010', username: 'guest', password: 'secret' }], SITE_ROOT);
+    assert.ok(authRuleFor(`${COURSE}a.pdf`));
+    assert.ok(authRuleFor('http://localhost:8080/courses/2526/MATH1010/a.pdf'));
+    assert.equal(authRuleFor('http://localhost:8080/mirror/2526/MATH2020/a.pdf'), undefined);
+  });
+});
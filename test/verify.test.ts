@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { ManifestEntry } from '../src/manifest';
+import { checkLocalFile, compareRemote, sniffKind, VerifyFile } from '../src/verify';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'cumatdl-verify-'));
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+const PDF = Buffer.from('%PDF-1.7\n1 0 obj << >> endobj\n%%EOF\n');
+
+/** Writes `data` as `name` and returns a manifest entry for `recorded` (by default the same bytes). */
+function saved(name: string, data: Buffer | null, recorded: Buffer = data ?? PDF): ManifestEntry {
+  if (data) fs.writeFileSync(path.join(root, name), data);
+  return {
+    url: `https://www.math.cuhk.edu.hk/course_builder/2526/MATH1010/${name}`,
+    path: name,
+    size: recorded.length,
+    sha256: crypto.createHash('sha256').update(recorded).digest('hex'),
+    syncedAt: '2025-10-01T00:00:00.000Z'
+  };
+}
+
+describe('sniffKind', () => {
+  it('recognises common signatures', () => {
+    assert.equal(sniffKind(PDF), 'pdf');
+    assert.equal(sniffKind(Buffer.from('junk first\n%PDF-1.4')), 'pdf');
+    assert.equal(sniffKind(Buffer.from('PK\x03\x04rest', 'latin1')), 'zip');
+    assert.equal(sniffKind(Buffer.from('d0cf11e0a1b11ae100', 'hex')), 'ole');
+    assert.equal(sniffKind(Buffer.from('89504e470d0a1a0a00', 'hex')), 'png');
+    assert.equal(sniffKind(Buffer.from('\0\0\0\x18ftypmp42', 'latin1')), 'mp4');
+  });
+
+  it('tells HTML pages apart from plain text', () => {
+    assert.equal(sniffKind(Buffer.from('\uFEFF  <!DOCTYPE html><html>')), 'html');
+    assert.equal(sniffKind(Buffer.from('<HTML>\n<title>Login</title>')), 'html');
+    assert.equal(sniffKind(Buffer.from('<html-notes> are not pages')), null);
+    assert.equal(sniffKind(Buffer.from('just text')), null);
+    assert.equal(sniffKind(Buffer.alloc(0)), null);
+  });
+});
+
+describe('checkLocalFile', () => {
+  it('passes a file that matches its entry', async () => {
+    assert.deepEqual((await checkLocalFile(saved('good.pdf', PDF), root)).problems, []);
+  });
+
+  it('reports missing, empty, truncated and grown files', async () => {
+    assert.deepEqual((await checkLocalFile(saved('gone.pdf', null), root)).problems, ['missing']);
+    assert.deepEqual((await checkLocalFile(saved('empty.pdf', Buffer.alloc(0), PDF), root)).problems, ['empty']);
+    assert.deepEqual((await checkLocalFile(saved('short.pdf', PDF.subarray(0, 10), PDF), root)).problems, ['truncated']);
+    const grown = Buffer.concat([PDF, Buffer.from('more')]);
+    assert.deepEqual((await checkLocalFile(saved('long.pdf', grown, PDF), root)).problems, ['size']);
+  });
+
+  it('reports a login page saved as a PDF and content of the wrong kind', async () => {
+    const page = Buffer.from('<!DOCTYPE html><html><body>Please log in</body></html>');
+    const login = await checkLocalFile(saved('login.pdf', page), root);
+    assert.deepEqual(login.problems, ['html-page']);
+    assert.equal(login.detected, 'html');
+    const zip = await checkLocalFile(saved('slides.docx', PDF), root);
+    assert.deepEqual(zip.problems, ['signature']);
+    assert.equal(zip.detected, 'pdf');
+  });
+
+  it('reports a changed hash only when nothing else is wrong', async () => {
+    const other = Buffer.from(PDF.toString('latin1').replace('1.7', '1.6'), 'latin1');
+    assert.deepEqual((await checkLocalFile(saved('edited.pdf', other, PDF), root)).problems, ['hash']);
+  });
+});
+
+describe('compareRemote', () => {
+  const file = (size: number | null): VerifyFile => ({ url: '', localPath: '', problems: [], size, expectedSize: size ?? 0 });
+  const entry = (extra: Partial<ManifestEntry> = {}): ManifestEntry => ({ ...saved('remote.pdf', null), contentType: 'application/pdf', ...extra });
+
+  it('reports a size or type the server changed', () => {
+    const checked = file(100);
+    compareRemote(checked, entry(), { status: 200, size: 120, contentType: 'text/html; charset=utf-8' });
+    assert.deepEqual(checked.problems, ['remote-size', 'remote-type']);
+    assert.equal(checked.remoteSize, 120);
+  });
+
+  it('reports files gone from the server and keeps other failures as errors', () => {
+    const gone = file(100);
+    compareRemote(gone, entry(), { status: 404, size: null });
+    assert.deepEqual(gone.problems, ['remote-gone']);
+    const failed = file(100);
+    compareRemote(failed, entry(), { status: 503, size: null });
+    assert.deepEqual(failed.problems, []);
+    assert.equal(failed.error, 'HTTP 503');
+  });
+
+  it('compares a localized stylesheet by the size the server sent for it', () => {
+    const css = { contentType: 'text/css', assets: ['https://cdn.example.com/bg.png'] };
+    const same = file(140);
+    compareRemote(same, entry({ ...css, size: 140, remoteSize: 120 }), { status: 200, size: 120, contentType: 'text/css' });
+    assert.deepEqual(same.problems, []);
+    const changed = file(140);
+    compareRemote(changed, entry({ ...css, size: 140, remoteSize: 120 }), { status: 200, size: 130, contentType: 'text/css' });
+    assert.deepEqual(changed.problems, ['remote-size']);
+    // rewritten before the server's size was kept: nothing to compare with
+    const older = file(140);
+    compareRemote(older, entry({ ...css, size: 140 }), { status: 200, size: 120, contentType: 'text/css' });
+    assert.deepEqual(older.problems, []);
+  });
+});
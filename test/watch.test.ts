@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, describe, it } from 'node:test';
+
+import { parseCliArgs, SelectionError } from '../src/cli';
+import { AppConfig, ConfigError, loadConfig } from '../src/config';
+import { createNotifier } from '../src/watch';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cumatdl-watch-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+// an empty file, so a config file in the working directory can't get in the way
+const EMPTY_FILE = path.join(dir, 'empty.json');
+fs.writeFileSync(EMPTY_FILE, '{}');
+
+describe('watch flags', () => {
+  it('takes the interval and repeated hooks', () => {
+    const options = parseCliArgs(['--watch', '-c', 'MATH1010', '--interval', '15', '--notify', 'stdout', '--notify', 'cmd:echo a,b']);
+    assert.equal(options.watch, true);
+    assert.equal(options.interval, '15');
+    assert.deepEqual(options.notify, ['stdout', 'cmd:echo a,b']);
+  });
+
+  it('needs a course selection and no dry run', () => {
+    assert.throws(() => parseCliArgs(['--watch', '-y', '2526']), /--watch needs --course, --all or --blocked-only/);
+    assert.throws(() => parseCliArgs(['--watch', '--all', '--dry-run']), SelectionError);
+    assert.doesNotThrow(() => parseCliArgs(['--watch', '--blocked-only']));
+  });
+});
+
+describe('watch config', () => {
+  const load = (argv: string[], env: NodeJS.ProcessEnv = {}): AppConfig =>
+    loadConfig(parseCliArgs(['--watch', '--all', ...argv]), { CUMATDL_CONFIG: EMPTY_FILE, ...env });
+
+  it('defaults to hourly polls without hooks', () => {
+    const config = load([]);
+    assert.equal(config.watchInterval, 60);
+    assert.deepEqual(config.notify, []);
+  });
+
+  it('layers the interval and hooks from the file, the environment and the flags', () => {
+    const file = path.join(dir, 'watch.json');
+    fs.writeFileSync(file, JSON.stringify({ watchInterval: 30, notify: ['stdout', 'https://hooks.example.com/x'] }));
+    const fromFile = load(['--config', file]);
+    assert.equal(fromFile.watchInterval, 30);
+    assert.deepEqual(fromFile.notify, ['stdout', 'https://hooks.example.com/x']);
+
+    // the variable holds a single hook, commas and all
+    const fromEnv = load(['--config', file], { CUMATDL_WATCH_INTERVAL: '5', CUMATDL_NOTIFY: 'cmd:notify-send a,b' });
+    assert.equal(fromEnv.watchInterval, 5);
+    assert.deepEqual(fromEnv.notify, ['cmd:notify-send a,b']);
+
+    const fromFlags = load(['--config', file, '--interval', '2', '--notify', 'stdout'], { CUMATDL_WATCH_INTERVAL: '5' });
+    assert.equal(fromFlags.watchInterval, 2);
+    assert.deepEqual(fromFlags.notify, ['stdout']);
+  });
+
+  it('rejects a zero interval and unknown hooks', () => {
+    assert.throws(() => load(['--interval', '0']), /greater than 0 minutes/);
+    assert.throws(() => load(['--interval', 'soon']), ConfigError);
+    assert.throws(() => load(['--notify', 'email:me@example.com']), /Unknown notify hook "email:me@example.com"/);
+    assert.throws(() => load([], { CUMATDL_NOTIFY: 'cmd:' }), ConfigError);
+    const file = path.join(dir, 'bad-notify.json');
+    fs.writeFileSync(file, JSON.stringify({ notify: 'stdout' }));
+    assert.throws(() => load(['--config', file]), /"notify" in .* must be an array of strings/);
+  });
+});
+
+describe('createNotifier', () => {
+  it('knows stdout, webhooks and commands', () => {
+    for (const spec of ['stdout', 'https://hooks.example.com/x', 'HTTP://localhost:9000/', 'cmd:true']) {
+      assert.equal(typeof createNotifier(spec), 'function', spec);
+    }
+    for (const spec of ['', 'ftp://example.com/', 'cmd:', 'STDOUT']) assert.throws(() => createNotifier(spec), Error, spec);
+  });
+});